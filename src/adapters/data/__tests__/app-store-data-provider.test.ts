@@ -0,0 +1,50 @@
+import { AppStoreDataProvider, AppStoreDataProviderOptions } from '../app-store-data-provider';
+import { FetchLike } from '../fetch';
+import { ManualClock } from '../../../core/clock';
+import { fetchReturning, fixture } from './helpers';
+
+function createProvider(
+  fetch: FetchLike,
+  options: Partial<AppStoreDataProviderOptions> = {}
+): AppStoreDataProvider {
+  return new AppStoreDataProvider({
+    appStoreConfig: { iosAppStoreId: '123456789' },
+    currentVersion: '2.6.0',
+    fetch,
+    clock: new ManualClock(0),
+    ...options,
+  });
+}
+
+describe('AppStoreDataProvider', () => {
+  it('returns the live iOS version and release notes', async () => {
+    const provider = createProvider(fetchReturning(fixture('itunes-lookup.json')));
+
+    expect(await provider.getLatestVersion('ios')).toBe('2.7.0');
+    expect(await provider.getLatestVersion('android')).toBeNull();
+    expect(await provider.getChangeLog('2.7.0')).toBe('Faster sync\nFixed a crash when sharing notes & lists');
+  });
+
+  it('returns null when the app is not in the store country', async () => {
+    const provider = createProvider(fetchReturning(fixture('itunes-lookup-empty.json')));
+
+    expect(await provider.getLatestVersion('ios')).toBeNull();
+    expect(await provider.getVersionHistory('ios')).toEqual([]);
+  });
+
+  it('offers no update when the device runs an iOS below minimumOsVersion', async () => {
+    const provider = createProvider(fetchReturning(fixture('itunes-lookup.json')), {
+      getOsVersion: () => '15.8',
+    });
+
+    expect(await provider.getLatestVersion('ios')).toBeNull();
+  });
+
+  it('offers the update when the device meets minimumOsVersion', async () => {
+    const provider = createProvider(fetchReturning(fixture('itunes-lookup.json')), {
+      getOsVersion: async () => '16.0',
+    });
+
+    expect(await provider.getLatestVersion('ios')).toBe('2.7.0');
+  });
+});
@@ -0,0 +1,45 @@
+import { parsePlayStoreListing, getPlayStoreListingUrl } from '../google-play-listing';
+import { StoreListingParseError } from '../../../core/errors';
+import { fixture } from './helpers';
+
+describe('parsePlayStoreListing', () => {
+  it('reads the ds:5 data block of the current page layout', () => {
+    expect(parsePlayStoreListing(fixture('play-listing.html'))).toEqual({
+      version: '2.7.0',
+      variesWithDevice: false,
+      whatsNew: 'Faster sync\nFixed a crash when sharing notes & lists',
+      updated: 1791936000000,
+    });
+  });
+
+  it('reads the legacy "Current Version" markup', () => {
+    expect(parsePlayStoreListing(fixture('play-listing-legacy.html'))).toEqual({
+      version: '2.4.1',
+      variesWithDevice: false,
+      whatsNew: 'Faster sync\nFixed a crash when sharing notes & lists',
+      updated: Date.parse('March 3, 2020'),
+    });
+  });
+
+  it('reports "Varies with device" without a version', () => {
+    const listing = parsePlayStoreListing(fixture('play-listing-varies.html'));
+
+    expect(listing.version).toBeNull();
+    expect(listing.variesWithDevice).toBe(true);
+    expect(listing.updated).toBe(1790726400000);
+  });
+
+  it('throws StoreListingParseError for a page without a version', () => {
+    expect(() => parsePlayStoreListing(fixture('play-listing-not-found.html'))).toThrow(
+      StoreListingParseError
+    );
+  });
+});
+
+describe('getPlayStoreListingUrl', () => {
+  it('builds the details URL with language and country', () => {
+    expect(getPlayStoreListingUrl('com.example.notes', 'en', 'gb')).toBe(
+      'https://play.google.com/store/apps/details?id=com.example.notes&hl=en&gl=GB'
+    );
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Fixture loading and stub fetch shared by the data provider specs
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { FetchLike, FetchResponseLike } from '../fetch';
+
+/**
+ * Read a saved response from __fixtures__
+ */
+export function fixture(name: string): string {
+  return readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+}
+
+/**
+ * Build a response; a string body is served as is, anything else as JSON
+ */
+export function response(
+  status: number,
+  body: unknown = null,
+  headers: Record<string, string> = {}
+): FetchResponseLike {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return {
+    status,
+    headers: { get: name => headers[name] ?? null },
+    json: async () => JSON.parse(text),
+    text: async () => text,
+  };
+}
+
+/**
+ * Fetch that answers every request with the same body
+ */
+export function fetchReturning(body: unknown, status: number = 200): jest.Mock & FetchLike {
+  return jest.fn(async () => response(status, body));
+}
+
+/**
+ * Fetch that answers successive requests with the given responses
+ */
+export function fetchSequence(...responses: FetchResponseLike[]): jest.Mock & FetchLike {
+  const fetch = jest.fn<ReturnType<FetchLike>, Parameters<FetchLike>>();
+  for (const next of responses) {
+    fetch.mockResolvedValueOnce(next);
+  }
+  return fetch;
+}
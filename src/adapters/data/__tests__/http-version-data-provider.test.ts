@@ -0,0 +1,194 @@
+import { HttpVersionDataProvider } from '../http-version-data-provider';
+import { FetchLike } from '../fetch';
+import { HttpError, ManifestValidationError } from '../../../core/errors';
+import { VersionChecker } from '../../../core/version-checker';
+import { ManualClock } from '../../../core/clock';
+import { InMemoryStorageProvider } from '../../../providers/storage-provider.interface';
+import { fetchReturning, fetchSequence, response } from './helpers';
+
+const manifest = {
+  schemaVersion: 1,
+  platforms: {
+    ios: {
+      latestVersion: '2.0.0',
+      mandatory: true,
+      changelog: 'iOS redesign',
+      channels: {
+        beta: { version: '2.1.0-beta.1', changelog: 'Beta widgets', rolloutPercentage: 10 },
+        internal: '2.2.0-alpha.3',
+      },
+    },
+    android: { latestVersion: '2.0.0', changelog: 'Android redesign' },
+  },
+};
+
+function createProvider(fetch: FetchLike, clock: ManualClock = new ManualClock(0)): HttpVersionDataProvider {
+  return new HttpVersionDataProvider({
+    url: 'https://example.com/versions.json',
+    currentVersion: '1.0.0',
+    fetch,
+    maxAge: 1000,
+    clock,
+  });
+}
+
+describe('HttpVersionDataProvider conditional requests', () => {
+  const validators = { ETag: '"v1"', 'Last-Modified': 'Wed, 14 Oct 2026 07:00:00 GMT' };
+
+  it('revalidates with If-None-Match and If-Modified-Since after maxAge', async () => {
+    const clock = new ManualClock(0);
+    const fetch = fetchSequence(response(200, manifest, validators), response(304));
+    const provider = createProvider(fetch, clock);
+
+    await provider.getManifest();
+    expect(fetch.mock.calls[0][1].headers).toEqual({ Accept: 'application/json' });
+
+    clock.advance(1000);
+    await provider.getManifest();
+    expect(fetch.mock.calls[1][1].headers).toEqual({
+      Accept: 'application/json',
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Wed, 14 Oct 2026 07:00:00 GMT',
+    });
+  });
+
+  it('reuses the cached manifest on 304 Not Modified', async () => {
+    const clock = new ManualClock(0);
+    const fetch = fetchSequence(response(200, manifest, validators), response(304));
+    const provider = createProvider(fetch, clock);
+
+    const first = await provider.getManifest();
+    clock.advance(1000);
+    const second = await provider.getManifest();
+
+    expect(second).toBe(first);
+    expect(await provider.getLatestVersion('android')).toBe('2.0.0');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent calls', async () => {
+    const fetch = fetchSequence(response(200, manifest));
+    const provider = createProvider(fetch);
+
+    await Promise.all([
+      provider.getManifest(),
+      provider.getLatestVersion('ios'),
+      provider.getChangeLog('2.0.0'),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the validators on invalidate()', async () => {
+    const fetch = fetchSequence(response(200, manifest, validators), response(200, manifest));
+    const provider = createProvider(fetch);
+
+    await provider.getManifest();
+    provider.invalidate();
+    await provider.getManifest();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1][1].headers).toEqual({ Accept: 'application/json' });
+  });
+
+  it('throws HttpError for a failed status', async () => {
+    const provider = createProvider(fetchSequence(response(503)));
+
+    const error = await provider.getManifest().catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(503);
+    expect(error.url).toBe('https://example.com/versions.json');
+  });
+
+  it('throws ManifestValidationError naming the offending field', async () => {
+    const invalid = { schemaVersion: 1, platforms: { ios: { latestVersion: '' } } };
+    const provider = createProvider(fetchSequence(response(200, invalid)));
+
+    const error = await provider.getManifest().catch(e => e);
+
+    expect(error).toBeInstanceOf(ManifestValidationError);
+    expect(error.path).toBe('platforms.ios.latestVersion');
+  });
+
+  it('reports the path of invalid channel details', async () => {
+    const invalid = {
+      schemaVersion: 1,
+      platforms: {
+        ios: { latestVersion: '2.0.0', channels: { beta: { version: '2.1.0', mandatory: 'yes' } } },
+      },
+    };
+    const provider = createProvider(fetchSequence(response(200, invalid)));
+
+    await expect(provider.getManifest()).rejects.toMatchObject({
+      name: 'ManifestValidationError',
+      path: 'platforms.ios.channels.beta.mandatory',
+    });
+  });
+});
+
+describe('HttpVersionDataProvider', () => {
+  it('keeps the defaults for options passed as undefined', async () => {
+    const fetch = fetchReturning(manifest);
+    const provider = new HttpVersionDataProvider({
+      url: 'https://example.com/versions.json',
+      currentVersion: '1.0.0',
+      fetch,
+      maxAge: undefined,
+      clock: undefined,
+      headers: undefined,
+    });
+
+    await provider.getManifest();
+    await provider.getManifest();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads mandatory and changelog for the given platform', async () => {
+    const provider = new HttpVersionDataProvider({
+      url: 'https://example.com/versions.json',
+      currentVersion: '1.0.0',
+      fetch: fetchReturning(manifest),
+      platform: 'android',
+    });
+
+    expect(await provider.getChangeLog('2.0.0')).toBe('Android redesign');
+    expect(await provider.isUpdateMandatory('1.0.0', '2.0.0')).toBe(false);
+    expect(await provider.getChangeLog('2.0.0', 'ios')).toBe('iOS redesign');
+    expect(await provider.isUpdateMandatory('1.0.0', '2.0.0', 'ios')).toBe(true);
+  });
+
+  it('reads release details of channel versions', async () => {
+    const provider = new HttpVersionDataProvider({
+      url: 'https://example.com/versions.json',
+      currentVersion: '1.0.0',
+      fetch: fetchReturning(manifest),
+    });
+
+    expect(await provider.getLatestVersion('ios', 'beta')).toBe('2.1.0-beta.1');
+    expect(await provider.getLatestVersion('ios', 'internal')).toBe('2.2.0-alpha.3');
+    expect(await provider.getChangeLog('2.1.0-beta.1', 'ios')).toBe('Beta widgets');
+    expect(await provider.getRolloutPercentage('2.1.0-beta.1', 'ios')).toBe(10);
+    expect(await provider.isUpdateMandatory('1.0.0', '2.1.0-beta.1', 'ios')).toBe(false);
+    expect(await provider.getChangeLog('2.2.0-alpha.3', 'ios')).toBeNull();
+  });
+
+  it('follows the platform resolved by VersionChecker', async () => {
+    const provider = new HttpVersionDataProvider({
+      url: 'https://example.com/versions.json',
+      currentVersion: '1.0.0',
+      fetch: fetchReturning(manifest),
+      platform: 'android',
+    });
+    const checker = new VersionChecker(provider, new InMemoryStorageProvider(), {
+      getPlatform: () => 'ios',
+      clock: new ManualClock(0),
+    });
+
+    const versionInfo = await checker.getVersionInfo();
+
+    expect(versionInfo.updateType).toBe('required');
+    expect(await checker.getChangeLog()).toBe('iOS redesign');
+  });
+});
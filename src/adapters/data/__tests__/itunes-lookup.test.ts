@@ -0,0 +1,47 @@
+import { parseITunesLookup, getITunesLookupUrl } from '../itunes-lookup';
+import { StoreListingParseError } from '../../../core/errors';
+import { fixture } from './helpers';
+
+interface LookupResponse {
+  results: Array<Record<string, unknown>>;
+}
+
+function lookupFixture(name: string): LookupResponse {
+  return JSON.parse(fixture(name));
+}
+
+describe('parseITunesLookup', () => {
+  it('reads a recorded lookup response', () => {
+    expect(parseITunesLookup(lookupFixture('itunes-lookup.json'))).toEqual({
+      version: '2.7.0',
+      releaseNotes: 'Faster sync\nFixed a crash when sharing notes & lists',
+      releaseDate: '2026-10-14T07:00:00Z',
+      minimumOsVersion: '16.0',
+      storeUrl: 'https://apps.apple.com/us/app/example-notes/id123456789?uo=4',
+    });
+  });
+
+  it('returns null when the app is not in the store country', () => {
+    expect(parseITunesLookup(lookupFixture('itunes-lookup-empty.json'))).toBeNull();
+  });
+
+  it('throws StoreListingParseError when the version is missing', () => {
+    const data = lookupFixture('itunes-lookup.json');
+    delete data.results[0].version;
+
+    expect(() => parseITunesLookup(data)).toThrow(StoreListingParseError);
+  });
+
+  it('throws StoreListingParseError for a response without results', () => {
+    expect(() => parseITunesLookup({ errorMessage: 'Invalid value(s) for key(s): [id]' })).toThrow(
+      StoreListingParseError
+    );
+    expect(() => parseITunesLookup(null)).toThrow(StoreListingParseError);
+  });
+});
+
+describe('getITunesLookupUrl', () => {
+  it('builds the lookup URL with a store country', () => {
+    expect(getITunesLookupUrl('123456789', 'GB')).toBe('https://itunes.apple.com/lookup?id=123456789&country=gb');
+  });
+});
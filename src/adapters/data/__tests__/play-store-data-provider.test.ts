@@ -0,0 +1,54 @@
+import { PlayStoreDataProvider } from '../play-store-data-provider';
+import { FetchLike } from '../fetch';
+import { ManualClock } from '../../../core/clock';
+import { fetchReturning, fixture } from './helpers';
+
+function createProvider(fetch: FetchLike, clock: ManualClock = new ManualClock(0)): PlayStoreDataProvider {
+  return new PlayStoreDataProvider({
+    appStoreConfig: { androidPackageName: 'com.example.notes' },
+    currentVersion: '2.6.0',
+    fetch,
+    maxAge: 60 * 1000,
+    clock,
+  });
+}
+
+describe('PlayStoreDataProvider', () => {
+  it('returns the live Android version, changelog and history', async () => {
+    const provider = createProvider(fetchReturning(fixture('play-listing.html')));
+
+    expect(await provider.getLatestVersion('android')).toBe('2.7.0');
+    expect(await provider.getChangeLog('2.7.0')).toBe('Faster sync\nFixed a crash when sharing notes & lists');
+    expect(await provider.getVersionHistory('android')).toEqual([
+      {
+        version: '2.7.0',
+        notes: 'Faster sync\nFixed a crash when sharing notes & lists',
+        releaseDate: 1791936000000,
+      },
+    ]);
+  });
+
+  it('has no version for other platforms and channels', async () => {
+    const provider = createProvider(fetchReturning(fixture('play-listing.html')));
+
+    expect(await provider.getLatestVersion('ios')).toBeNull();
+    expect(await provider.getLatestVersion('android', 'beta')).toBeNull();
+  });
+
+  it('offers no update when the version varies with device', async () => {
+    const provider = createProvider(fetchReturning(fixture('play-listing-varies.html')));
+
+    expect(await provider.getLatestVersion('android')).toBeNull();
+    expect(await provider.getVersionHistory('android')).toEqual([]);
+  });
+
+  it('requests the English details page', async () => {
+    const fetch = fetchReturning(fixture('play-listing.html'));
+    await createProvider(fetch).getListing();
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://play.google.com/store/apps/details?id=com.example.notes&hl=en',
+      { method: 'GET', headers: { Accept: 'text/html' } }
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { AppStoreDataProvider } from '../app-store-data-provider';
+import { PlayStoreDataProvider } from '../play-store-data-provider';
+import { FetchLike } from '../fetch';
+import { HttpError } from '../../../core/errors';
+import { ManualClock } from '../../../core/clock';
+import { Platform } from '../../../core/types';
+import { fetchReturning, fixture } from './helpers';
+
+const stores: Array<{
+  name: string;
+  platform: Platform;
+  body: string;
+  createProvider: (fetch: FetchLike, clock: ManualClock) => AppStoreDataProvider | PlayStoreDataProvider;
+}> = [
+  {
+    name: 'AppStoreDataProvider',
+    platform: 'ios',
+    body: fixture('itunes-lookup.json'),
+    createProvider: (fetch, clock) =>
+      new AppStoreDataProvider({
+        appStoreConfig: { iosAppStoreId: '123456789' },
+        currentVersion: () => '2.6.0',
+        fetch,
+        maxAge: 1000,
+        clock,
+      }),
+  },
+  {
+    name: 'PlayStoreDataProvider',
+    platform: 'android',
+    body: fixture('play-listing.html'),
+    createProvider: (fetch, clock) =>
+      new PlayStoreDataProvider({
+        appStoreConfig: { androidPackageName: 'com.example.notes' },
+        currentVersion: async () => '2.6.0',
+        fetch,
+        maxAge: 1000,
+        clock,
+      }),
+  },
+];
+
+describe.each(stores)('$name', ({ platform, body, createProvider }) => {
+  it('reads a function currentVersion', async () => {
+    const provider = createProvider(fetchReturning(body), new ManualClock(0));
+
+    expect(await provider.getCurrentVersion()).toBe('2.6.0');
+  });
+
+  it('caches the listing for maxAge', async () => {
+    const clock = new ManualClock(0);
+    const fetch = fetchReturning(body);
+    const provider = createProvider(fetch, clock);
+
+    await Promise.all([provider.getLatestVersion(platform), provider.getChangeLog('2.7.0')]);
+    await provider.getLatestVersion(platform);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    clock.advance(1000);
+    await provider.getLatestVersion(platform);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await provider.getListing(true);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws HttpError with the status for failed requests', async () => {
+    const provider = createProvider(fetchReturning('', 404), new ManualClock(0));
+
+    const error = await provider.getLatestVersion(platform).catch(e => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(404);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * App Store implementation of IVersionDataProvider
+ * Reads the live iOS version from the iTunes Lookup API
+ */
+
+import { BaseVersionDataProvider } from '../../providers/data-provider.interface';
+import { AppStoreConfig, Clock, Platform, ReleaseChannel, VersionRelease } from '../../core/types';
+import { TtlCache } from '../../core/cache';
+import { systemClock } from '../../core/clock';
+import { compareVersions } from '../../core/version-compare';
+import { AppStoreListing, getITunesLookupUrl, parseITunesLookup } from './itunes-lookup';
+import {
+  CurrentVersionOption,
+  FetchLike,
+  assertOk,
+  resolveCurrentVersion,
+  resolveFetch,
+} from './fetch';
+
+export interface AppStoreDataProviderOptions {
+  /** Store configuration; `iosAppStoreId` is required for lookups */
+  appStoreConfig: AppStoreConfig;
+  /** Installed app version, or a function returning it */
+  currentVersion: CurrentVersionOption;
+  /** Two-letter store country code (default: the US store) */
+  country?: string;
+  /** Installed iOS version; updates requiring a newer iOS are not offered */
+  getOsVersion?: () => string | Promise<string>;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: FetchLike;
+  /** Reuse a fetched listing for this many milliseconds (default: 1 hour) */
+  maxAge?: number;
+  /** Clock used for `maxAge` (default: system clock) */
+  clock?: Clock;
+}
+
+export class AppStoreDataProvider extends BaseVersionDataProvider {
+  private readonly options: AppStoreDataProviderOptions;
+  private cache: TtlCache;
+
+  constructor(options: AppStoreDataProviderOptions) {
+    super();
+    this.options = options;
+    this.cache = new TtlCache(options.maxAge ?? 60 * 60 * 1000, options.clock ?? systemClock);
+  }
+
+  async getCurrentVersion(): Promise<string> {
+    return resolveCurrentVersion(this.options.currentVersion);
+  }
+
+  /**
+   * Get the live App Store version for iOS
+   * Other platforms and pre-release channels have no App Store version
+   */
+  async getLatestVersion(platform: Platform, channel: ReleaseChannel = 'stable'): Promise<string | null> {
+    if (platform !== 'ios' || channel !== 'stable') {
+      return null;
+    }
+
+    const listing = await this.getListing();
+    if (!listing) {
+      return null;
+    }
+
+    // Don't offer an update this device cannot install
+    if (listing.minimumOsVersion && this.options.getOsVersion) {
+      const osVersion = await this.options.getOsVersion();
+      if (compareVersions(osVersion, listing.minimumOsVersion) < 0) {
+        return null;
+      }
+    }
+
+    return listing.version;
+  }
+
+  getAppStoreConfig(): AppStoreConfig {
+    return this.options.appStoreConfig;
+  }
+
+  async getChangeLog(version: string): Promise<string | null> {
+    const listing = await this.getListing();
+    return listing?.version === version ? listing.releaseNotes : null;
+  }
+
+  async getVersionHistory(platform: Platform): Promise<VersionRelease[]> {
+    const listing = platform === 'ios' ? await this.getListing() : null;
+    if (!listing) {
+      return [];
+    }
+
+    return [
+      {
+        version: listing.version,
+        notes: listing.releaseNotes,
+        ...(listing.releaseDate && { releaseDate: listing.releaseDate }),
+      },
+    ];
+  }
+
+  /**
+   * Get the App Store listing, or null if the app is not available in the store country
+   */
+  async getListing(forceRefresh: boolean = false): Promise<AppStoreListing | null> {
+    const { iosAppStoreId } = this.options.appStoreConfig;
+    if (!iosAppStoreId) {
+      throw new Error('AppStoreDataProvider requires appStoreConfig.iosAppStoreId');
+    }
+
+    return this.cache.get('listing', () => this.fetchListing(iosAppStoreId), forceRefresh);
+  }
+
+  async dispose(): Promise<void> {
+    this.cache.invalidate();
+  }
+
+  private async fetchListing(appStoreId: string): Promise<AppStoreListing | null> {
+    const url = getITunesLookupUrl(appStoreId, this.options.country);
+    const response = await resolveFetch(this.options.fetch)(url, {
+      method: 'GET',
+      headers: { Accept: 'application/json' },
+    });
+
+    assertOk(url, response);
+
+    return parseITunesLookup(await response.json());
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Minimal fetch abstraction and option helpers shared by the data provider adapters
+ */
+
+import { HttpError } from '../../core/errors';
+
+/**
+ * Minimal response shape used by the providers (satisfied by the Fetch API)
+ */
+export interface FetchResponseLike {
+  status: number;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}
+
+/**
+ * Minimal fetch signature used by the providers (satisfied by the Fetch API)
+ */
+export type FetchLike = (
+  url: string,
+  init: { method: 'GET'; headers: Record<string, string> }
+) => Promise<FetchResponseLike>;
+
+/**
+ * Use the given fetch, or the global one
+ * @throws Error when neither is available
+ */
+export function resolveFetch(fetchImpl?: FetchLike): FetchLike {
+  if (fetchImpl) {
+    return fetchImpl;
+  }
+
+  if (typeof globalThis.fetch !== 'function') {
+    throw new Error('No fetch implementation available; pass one in the fetch option');
+  }
+
+  // Browsers reject an unbound global fetch
+  return globalThis.fetch.bind(globalThis) as unknown as FetchLike;
+}
+
+/**
+ * Throw for a response outside the 2xx range
+ * @throws HttpError with the response status
+ */
+export function assertOk(url: string, response: FetchResponseLike): void {
+  if (response.status < 200 || response.status >= 300) {
+    throw new HttpError(url, response.status);
+  }
+}
+
+/**
+ * Installed app version option: a fixed string or a function returning it
+ */
+export type CurrentVersionOption = string | (() => string | Promise<string>);
+
+/**
+ * Read a `currentVersion` option
+ */
+export async function resolveCurrentVersion(currentVersion: CurrentVersionOption): Promise<string> {
+  return typeof currentVersion === 'function' ? await currentVersion() : currentVersion;
+}
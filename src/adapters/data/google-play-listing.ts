@@ -0,0 +1,167 @@
+/**
+ * Google Play listing parsing
+ * Extracts release details from the HTML of a Play Store details page
+ */
+
+import { StoreListingParseError } from '../../core/errors';
+
+/** App details published on Google Play */
+export interface PlayStoreListing {
+  /** Version currently live on the store, null when it varies with device */
+  version: string | null;
+  /** The listing reports "Varies with device" instead of a version */
+  variesWithDevice: boolean;
+  /** "What's new" text */
+  whatsNew: string | null;
+  /** Last update date (timestamp in milliseconds), when known */
+  updated: number | null;
+}
+
+const VARIES_WITH_DEVICE = /^varies with device$/i;
+
+/**
+ * Paths into the `ds:5` data block of current Play pages
+ */
+const DATA_PATHS = {
+  version: [1, 2, 140, 0, 0, 0],
+  whatsNew: [1, 2, 144, 1, 1],
+  updatedSeconds: [1, 2, 145, 0, 1, 0],
+};
+
+/**
+ * Build the Play Store details URL for a package
+ * @param language Page language; the parser expects English labels (default: 'en')
+ * @param country Two-letter store country code
+ */
+export function getPlayStoreListingUrl(
+  packageName: string,
+  language: string = 'en',
+  country?: string
+): string {
+  const params = [`id=${encodeURIComponent(packageName)}`, `hl=${encodeURIComponent(language)}`];
+  if (country) {
+    params.push(`gl=${encodeURIComponent(country.toUpperCase())}`);
+  }
+  return `https://play.google.com/store/apps/details?${params.join('&')}`;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert an HTML fragment to plain text, keeping line breaks
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''))
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Collect the JSON data blocks of the page's AF_initDataCallback scripts
+ */
+function extractDataBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const pattern = /AF_initDataCallback\(\{[^]*?data:([^]*?), sideChannel: \{\}\}\);/g;
+
+  for (let match = pattern.exec(html); match; match = pattern.exec(html)) {
+    try {
+      blocks.push(JSON.parse(match[1]));
+    } catch {
+      // Not every block is plain JSON; skip the ones we can't read
+    }
+  }
+
+  return blocks;
+}
+
+function readPath(data: unknown, path: number[]): unknown {
+  let value = data;
+  for (const index of path) {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+    value = value[index];
+  }
+  return value;
+}
+
+function findStringInBlocks(blocks: unknown[], path: number[]): string | undefined {
+  for (const block of blocks) {
+    const value = readPath(block, path);
+    if (typeof value === 'string') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function findNumberInBlocks(blocks: unknown[], path: number[]): number | undefined {
+  for (const block of blocks) {
+    const value = readPath(block, path);
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the value next to a label in the legacy "Additional information" markup
+ */
+function findLabeledValue(html: string, label: string): string | null {
+  const pattern = new RegExp(`>${label}</div>(?:\\s*<[^>]+>)*\\s*([^<]+)<`, 'i');
+  const match = pattern.exec(html);
+  return match ? decodeEntities(match[1]).trim() : null;
+}
+
+function findLegacyWhatsNew(html: string): string | null {
+  const match = /What(?:'|&#39;|&#x27;)s new<\/h2>[^]*?<span[^>]*>([^]*?)<\/span>/i.exec(html);
+  return match ? htmlToText(match[1]) || null : null;
+}
+
+/**
+ * Parse the HTML of a Play Store details page
+ * Reads the embedded page data, falling back to the legacy labeled markup
+ * @throws StoreListingParseError when no version (or "Varies with device") can be found
+ */
+export function parsePlayStoreListing(html: string): PlayStoreListing {
+  const blocks = extractDataBlocks(html);
+
+  const rawVersion =
+    findStringInBlocks(blocks, DATA_PATHS.version) ?? findLabeledValue(html, 'Current Version');
+  if (!rawVersion) {
+    throw new StoreListingParseError('google-play', 'current version not found');
+  }
+
+  const variesWithDevice = VARIES_WITH_DEVICE.test(rawVersion.trim());
+
+  const whatsNewHtml = findStringInBlocks(blocks, DATA_PATHS.whatsNew);
+  const whatsNew = whatsNewHtml !== undefined ? htmlToText(whatsNewHtml) || null : findLegacyWhatsNew(html);
+
+  const updatedSeconds = findNumberInBlocks(blocks, DATA_PATHS.updatedSeconds);
+  let updated = updatedSeconds !== undefined ? updatedSeconds * 1000 : null;
+  if (updated === null) {
+    const updatedText = findLabeledValue(html, 'Updated');
+    const parsed = updatedText ? Date.parse(updatedText) : NaN;
+    updated = Number.isNaN(parsed) ? null : parsed;
+  }
+
+  return {
+    version: variesWithDevice ? null : rawVersion.trim(),
+    variesWithDevice,
+    whatsNew,
+    updated,
+  };
+}
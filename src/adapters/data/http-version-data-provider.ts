@@ -0,0 +1,191 @@
+/**
+ * HTTP implementation of IVersionDataProvider
+ * Reads a JSON version manifest with conditional requests
+ */
+
+import { BaseVersionDataProvider } from '../../providers/data-provider.interface';
+import { AppStoreConfig, Clock, Platform, ReleaseChannel } from '../../core/types';
+import { systemClock } from '../../core/clock';
+import { detectPlatform } from '../../core/platform';
+import {
+  PlatformManifest,
+  ReleaseManifest,
+  VersionManifest,
+  parseVersionManifest,
+} from './version-manifest';
+import {
+  CurrentVersionOption,
+  FetchLike,
+  assertOk,
+  resolveCurrentVersion,
+  resolveFetch,
+} from './fetch';
+
+export interface HttpVersionDataProviderOptions {
+  /** URL of the version manifest */
+  url: string;
+  /** Installed app version, or a function returning it */
+  currentVersion: CurrentVersionOption;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: FetchLike;
+  /** Platform of this app, used when a lookup is not given one (default: detected) */
+  platform?: Platform;
+  /** Extra request headers, e.g. authorization */
+  headers?: Record<string, string>;
+  /** Reuse a fetched manifest for this many milliseconds before revalidating (default: 60 seconds) */
+  maxAge?: number;
+  /** Clock used for `maxAge` (default: system clock) */
+  clock?: Clock;
+}
+
+export class HttpVersionDataProvider extends BaseVersionDataProvider {
+  private readonly options: Required<Omit<HttpVersionDataProviderOptions, 'fetch' | 'platform'>> &
+    Pick<HttpVersionDataProviderOptions, 'fetch' | 'platform'>;
+  private manifest: VersionManifest | null = null;
+  private fetchedAt = 0;
+  private etag: string | null = null;
+  private lastModified: string | null = null;
+  private pending: Promise<VersionManifest> | null = null;
+
+  constructor(options: HttpVersionDataProviderOptions) {
+    super();
+    this.options = {
+      ...options,
+      headers: options.headers ?? {},
+      maxAge: options.maxAge ?? 60 * 1000,
+      clock: options.clock ?? systemClock,
+    };
+  }
+
+  async getCurrentVersion(): Promise<string> {
+    return resolveCurrentVersion(this.options.currentVersion);
+  }
+
+  getCurrentPlatform(): Platform {
+    return this.options.platform ?? detectPlatform();
+  }
+
+  async getLatestVersion(platform: Platform, channel: ReleaseChannel = 'stable'): Promise<string | null> {
+    const entry = await this.getPlatformManifest(platform);
+    if (!entry) {
+      return null;
+    }
+
+    return channel === 'stable' ? entry.latestVersion : entry.channels?.[channel]?.version ?? null;
+  }
+
+  async getAppStoreConfig(): Promise<AppStoreConfig> {
+    const manifest = await this.getManifest();
+    return manifest.store ?? {};
+  }
+
+  async getMinimumSupportedVersion(platform: Platform): Promise<string | null> {
+    const entry = await this.getPlatformManifest(platform);
+    return entry?.minimumVersion ?? null;
+  }
+
+  async isUpdateMandatory(
+    _currentVersion: string,
+    latestVersion: string,
+    platform: Platform = this.getCurrentPlatform()
+  ): Promise<boolean> {
+    const release = await this.getRelease(latestVersion, platform);
+    return release?.mandatory === true;
+  }
+
+  async getChangeLog(
+    version: string,
+    platform: Platform = this.getCurrentPlatform()
+  ): Promise<string | null> {
+    const release = await this.getRelease(version, platform);
+    return release?.changelog ?? null;
+  }
+
+  async getRolloutPercentage(version: string, platform: Platform): Promise<number | null> {
+    const release = await this.getRelease(version, platform);
+    return release?.rolloutPercentage ?? null;
+  }
+
+  /**
+   * Get the manifest, revalidating it once `maxAge` has passed
+   * Concurrent calls share one request
+   */
+  async getManifest(): Promise<VersionManifest> {
+    if (this.manifest && this.options.clock.now() - this.fetchedAt < this.options.maxAge) {
+      return this.manifest;
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchManifest().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Drop the cached manifest and validators so the next call fetches it in full
+   */
+  invalidate(): void {
+    this.manifest = null;
+    this.etag = null;
+    this.lastModified = null;
+  }
+
+  async dispose(): Promise<void> {
+    this.invalidate();
+  }
+
+  private async getPlatformManifest(platform: Platform): Promise<PlatformManifest | undefined> {
+    const manifest = await this.getManifest();
+    return manifest.platforms[platform];
+  }
+
+  /**
+   * Find the details of a version released on any channel of a platform
+   */
+  private async getRelease(version: string, platform: Platform): Promise<ReleaseManifest | undefined> {
+    const entry = await this.getPlatformManifest(platform);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.latestVersion === version) {
+      return entry;
+    }
+
+    return Object.values(entry.channels ?? {}).find(release => release?.version === version);
+  }
+
+  private async fetchManifest(): Promise<VersionManifest> {
+    const fetchImpl = resolveFetch(this.options.fetch);
+    const headers: Record<string, string> = { Accept: 'application/json', ...this.options.headers };
+    if (this.manifest) {
+      if (this.etag) {
+        headers['If-None-Match'] = this.etag;
+      }
+      if (this.lastModified) {
+        headers['If-Modified-Since'] = this.lastModified;
+      }
+    }
+
+    const response = await fetchImpl(this.options.url, { method: 'GET', headers });
+
+    // Not modified: keep the cached manifest
+    if (response.status === 304 && this.manifest) {
+      this.fetchedAt = this.options.clock.now();
+      return this.manifest;
+    }
+
+    assertOk(this.options.url, response);
+
+    const manifest = parseVersionManifest(await response.json());
+    this.manifest = manifest;
+    this.fetchedAt = this.options.clock.now();
+    this.etag = response.headers.get('ETag');
+    this.lastModified = response.headers.get('Last-Modified');
+
+    return manifest;
+  }
+}
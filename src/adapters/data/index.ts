@@ -0,0 +1,28 @@
+/**
+ * Data provider adapter exports
+ */
+
+export { type CurrentVersionOption, type FetchLike, type FetchResponseLike } from './fetch';
+export {
+  HttpVersionDataProvider,
+  type HttpVersionDataProviderOptions,
+} from './http-version-data-provider';
+export {
+  parseVersionManifest,
+  type VersionManifest,
+  type PlatformManifest,
+  type ReleaseManifest,
+  type ChannelManifest,
+} from './version-manifest';
+export { AppStoreDataProvider, type AppStoreDataProviderOptions } from './app-store-data-provider';
+export {
+  parseITunesLookup,
+  getITunesLookupUrl,
+  type AppStoreListing,
+} from './itunes-lookup';
+export { PlayStoreDataProvider, type PlayStoreDataProviderOptions } from './play-store-data-provider';
+export {
+  parsePlayStoreListing,
+  getPlayStoreListingUrl,
+  type PlayStoreListing,
+} from './google-play-listing';
@@ -0,0 +1,71 @@
+/**
+ * iTunes Lookup API parsing
+ * https://itunes.apple.com/lookup?id=<iosAppStoreId>
+ */
+
+import { StoreListingParseError } from '../../core/errors';
+
+/** App details published on the App Store */
+export interface AppStoreListing {
+  /** Version currently live on the store */
+  version: string;
+  /** "What's New" text of that version */
+  releaseNotes: string | null;
+  /** Release date of that version (ISO 8601) */
+  releaseDate: string | null;
+  /** Minimum iOS version required to install it */
+  minimumOsVersion: string | null;
+  /** Store page URL */
+  storeUrl: string | null;
+}
+
+/**
+ * Build the iTunes Lookup URL for an App Store ID
+ * @param country Two-letter store country code (default: the US store)
+ */
+export function getITunesLookupUrl(appStoreId: string, country?: string): string {
+  const params = [`id=${encodeURIComponent(appStoreId)}`];
+  if (country) {
+    params.push(`country=${encodeURIComponent(country.toLowerCase())}`);
+  }
+  return `https://itunes.apple.com/lookup?${params.join('&')}`;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value : null;
+}
+
+/**
+ * Parse an iTunes Lookup response
+ * Returns null when the app is not available in the requested store country
+ * @throws StoreListingParseError for responses that are not lookup results
+ */
+export function parseITunesLookup(data: unknown): AppStoreListing | null {
+  const results = typeof data === 'object' && data !== null ? (data as { results?: unknown }).results : undefined;
+  if (!Array.isArray(results)) {
+    throw new StoreListingParseError('app-store', 'expected an object with a results array');
+  }
+
+  const [result] = results;
+  if (result === undefined) {
+    return null;
+  }
+
+  if (typeof result !== 'object' || result === null) {
+    throw new StoreListingParseError('app-store', 'expected results[0] to be an object');
+  }
+
+  const fields = result as Record<string, unknown>;
+  const version = optionalString(fields.version);
+  if (!version) {
+    throw new StoreListingParseError('app-store', 'results[0].version is missing');
+  }
+
+  return {
+    version,
+    releaseNotes: optionalString(fields.releaseNotes),
+    releaseDate: optionalString(fields.currentVersionReleaseDate),
+    minimumOsVersion: optionalString(fields.minimumOsVersion),
+    storeUrl: optionalString(fields.trackViewUrl),
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Google Play implementation of IVersionDataProvider
+ * Reads the live Android version from the Play Store details page
+ */
+
+import { BaseVersionDataProvider } from '../../providers/data-provider.interface';
+import { AppStoreConfig, Clock, Platform, ReleaseChannel, VersionRelease } from '../../core/types';
+import { TtlCache } from '../../core/cache';
+import { systemClock } from '../../core/clock';
+import { PlayStoreListing, getPlayStoreListingUrl, parsePlayStoreListing } from './google-play-listing';
+import {
+  CurrentVersionOption,
+  FetchLike,
+  assertOk,
+  resolveCurrentVersion,
+  resolveFetch,
+} from './fetch';
+
+export interface PlayStoreDataProviderOptions {
+  /** Store configuration; `androidPackageName` is required for lookups */
+  appStoreConfig: AppStoreConfig;
+  /** Installed app version, or a function returning it */
+  currentVersion: CurrentVersionOption;
+  /** Two-letter store country code (default: chosen by Google for the request) */
+  country?: string;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: FetchLike;
+  /** Reuse a fetched listing for this many milliseconds (default: 1 hour) */
+  maxAge?: number;
+  /** Clock used for `maxAge` (default: system clock) */
+  clock?: Clock;
+}
+
+export class PlayStoreDataProvider extends BaseVersionDataProvider {
+  private readonly options: PlayStoreDataProviderOptions;
+  private cache: TtlCache;
+
+  constructor(options: PlayStoreDataProviderOptions) {
+    super();
+    this.options = options;
+    this.cache = new TtlCache(options.maxAge ?? 60 * 60 * 1000, options.clock ?? systemClock);
+  }
+
+  async getCurrentVersion(): Promise<string> {
+    return resolveCurrentVersion(this.options.currentVersion);
+  }
+
+  /**
+   * Get the live Play Store version for Android
+   * Returns null for other platforms, pre-release channels and "Varies with device" listings
+   */
+  async getLatestVersion(platform: Platform, channel: ReleaseChannel = 'stable'): Promise<string | null> {
+    if (platform !== 'android' || channel !== 'stable') {
+      return null;
+    }
+
+    const listing = await this.getListing();
+    return listing.version;
+  }
+
+  getAppStoreConfig(): AppStoreConfig {
+    return this.options.appStoreConfig;
+  }
+
+  async getChangeLog(version: string): Promise<string | null> {
+    const listing = await this.getListing();
+    return listing.version === version ? listing.whatsNew : null;
+  }
+
+  async getVersionHistory(platform: Platform): Promise<VersionRelease[]> {
+    const listing = platform === 'android' ? await this.getListing() : null;
+    if (!listing?.version) {
+      return [];
+    }
+
+    return [
+      {
+        version: listing.version,
+        notes: listing.whatsNew,
+        ...(listing.updated !== null && { releaseDate: listing.updated }),
+      },
+    ];
+  }
+
+  /**
+   * Get the Play Store listing
+   */
+  async getListing(forceRefresh: boolean = false): Promise<PlayStoreListing> {
+    const { androidPackageName } = this.options.appStoreConfig;
+    if (!androidPackageName) {
+      throw new Error('PlayStoreDataProvider requires appStoreConfig.androidPackageName');
+    }
+
+    return this.cache.get('listing', () => this.fetchListing(androidPackageName), forceRefresh);
+  }
+
+  async dispose(): Promise<void> {
+    this.cache.invalidate();
+  }
+
+  private async fetchListing(packageName: string): Promise<PlayStoreListing> {
+    // The parser relies on English labels
+    const url = getPlayStoreListingUrl(packageName, 'en', this.options.country);
+    const response = await resolveFetch(this.options.fetch)(url, {
+      method: 'GET',
+      headers: { Accept: 'text/html' },
+    });
+
+    assertOk(url, response);
+
+    return parsePlayStoreListing(await response.text());
+  }
+}
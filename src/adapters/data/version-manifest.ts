@@ -0,0 +1,195 @@
+/**
+ * Version manifest schema
+ * The JSON document served to HttpVersionDataProvider
+ */
+
+import { AppStoreConfig, Platform, ReleaseChannel } from '../../core/types';
+import { ManifestValidationError } from '../../core/errors';
+
+/** Details of a single release */
+export interface ReleaseManifest {
+  /** The release is a mandatory update */
+  mandatory?: boolean;
+  /** Changelog of the release */
+  changelog?: string;
+  /** Staged rollout percentage (0-100) of the release */
+  rolloutPercentage?: number;
+}
+
+/** Latest release on a pre-release channel */
+export interface ChannelManifest extends ReleaseManifest {
+  version: string;
+}
+
+/** Release information for one platform; release details describe the latest stable version */
+export interface PlatformManifest extends ReleaseManifest {
+  /** Latest stable version */
+  latestVersion: string;
+  /** Versions older than this must update */
+  minimumVersion?: string;
+  /** Latest release on other channels; a plain version string in the document is also accepted */
+  channels?: Partial<Record<ReleaseChannel, ChannelManifest>>;
+}
+
+/** Version manifest document */
+export interface VersionManifest {
+  /** Manifest format version, currently 1 */
+  schemaVersion: 1;
+  /** Release information keyed by platform */
+  platforms: Partial<Record<Platform, PlatformManifest>>;
+  /** Store IDs and URLs */
+  store?: AppStoreConfig;
+}
+
+const PLATFORMS: Platform[] = ['ios', 'android', 'web', 'macos', 'windows', 'linux', 'electron'];
+const CHANNELS: ReleaseChannel[] = ['stable', 'beta', 'internal'];
+const STORE_FIELDS: Array<keyof AppStoreConfig> = [
+  'iosAppStoreId',
+  'androidPackageName',
+  'iosStoreUrl',
+  'androidStoreUrl',
+  'macAppStoreId',
+  'macStoreUrl',
+  'windowsStoreId',
+  'windowsStoreUrl',
+  'snapName',
+  'linuxStoreUrl',
+  'desktopDownloadUrl',
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isObject(value)) {
+    throw new ManifestValidationError(path, 'expected an object');
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string, optional: boolean): string | undefined {
+  if (value === undefined && optional) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ManifestValidationError(path, 'expected a non-empty string');
+  }
+  return value;
+}
+
+function parseReleaseDetails(
+  entry: Record<string, unknown>,
+  path: string,
+  manifest: ReleaseManifest
+): void {
+  if (entry.mandatory !== undefined) {
+    if (typeof entry.mandatory !== 'boolean') {
+      throw new ManifestValidationError(`${path}.mandatory`, 'expected a boolean');
+    }
+    manifest.mandatory = entry.mandatory;
+  }
+
+  if (entry.changelog !== undefined) {
+    if (typeof entry.changelog !== 'string') {
+      throw new ManifestValidationError(`${path}.changelog`, 'expected a string');
+    }
+    manifest.changelog = entry.changelog;
+  }
+
+  if (entry.rolloutPercentage !== undefined) {
+    const percentage = entry.rolloutPercentage;
+    if (typeof percentage !== 'number' || !(percentage >= 0 && percentage <= 100)) {
+      throw new ManifestValidationError(`${path}.rolloutPercentage`, 'expected a number from 0 to 100');
+    }
+    manifest.rolloutPercentage = percentage;
+  }
+}
+
+function parseChannel(value: unknown, path: string): ChannelManifest {
+  if (typeof value === 'string') {
+    return { version: expectString(value, path, false)! };
+  }
+
+  const entry = expectObject(value, path);
+  const manifest: ChannelManifest = {
+    version: expectString(entry.version, `${path}.version`, false)!,
+  };
+  parseReleaseDetails(entry, path, manifest);
+  return manifest;
+}
+
+function parsePlatform(value: unknown, path: string): PlatformManifest {
+  const entry = expectObject(value, path);
+  const manifest: PlatformManifest = {
+    latestVersion: expectString(entry.latestVersion, `${path}.latestVersion`, false)!,
+  };
+
+  const minimumVersion = expectString(entry.minimumVersion, `${path}.minimumVersion`, true);
+  if (minimumVersion !== undefined) {
+    manifest.minimumVersion = minimumVersion;
+  }
+
+  parseReleaseDetails(entry, path, manifest);
+
+  if (entry.channels !== undefined) {
+    const channels = expectObject(entry.channels, `${path}.channels`);
+    manifest.channels = {};
+    for (const [channel, release] of Object.entries(channels)) {
+      if (!CHANNELS.includes(channel as ReleaseChannel)) {
+        throw new ManifestValidationError(
+          `${path}.channels.${channel}`,
+          `unknown channel, expected one of ${CHANNELS.join(', ')}`
+        );
+      }
+      manifest.channels[channel as ReleaseChannel] = parseChannel(
+        release,
+        `${path}.channels.${channel}`
+      );
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Validate a parsed JSON document against the manifest schema
+ * Unknown fields are ignored; unknown platforms and channels are rejected
+ * @throws ManifestValidationError describing the first offending field
+ */
+export function parseVersionManifest(data: unknown): VersionManifest {
+  const root = expectObject(data, '$');
+
+  if (root.schemaVersion !== 1) {
+    throw new ManifestValidationError(
+      'schemaVersion',
+      `unsupported schema version ${JSON.stringify(root.schemaVersion)}, expected 1`
+    );
+  }
+
+  const platforms = expectObject(root.platforms, 'platforms');
+  const manifest: VersionManifest = { schemaVersion: 1, platforms: {} };
+
+  for (const [platform, entry] of Object.entries(platforms)) {
+    if (!PLATFORMS.includes(platform as Platform)) {
+      throw new ManifestValidationError(
+        `platforms.${platform}`,
+        `unknown platform, expected one of ${PLATFORMS.join(', ')}`
+      );
+    }
+    manifest.platforms[platform as Platform] = parsePlatform(entry, `platforms.${platform}`);
+  }
+
+  if (root.store !== undefined) {
+    const store = expectObject(root.store, 'store');
+    manifest.store = {};
+    for (const field of STORE_FIELDS) {
+      const value = expectString(store[field], `store.${field}`, true);
+      if (value !== undefined) {
+        manifest.store[field] = value;
+      }
+    }
+  }
+
+  return manifest;
+}
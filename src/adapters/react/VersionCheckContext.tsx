@@ -13,7 +13,7 @@ import React, {
   useMemo,
 } from 'react';
 import { VersionChecker } from '../../core/version-checker';
-import { VersionInfo, VersionCheckOptions } from '../../core/types';
+import { VersionInfo, VersionCheckOptions, UpgradeEvent, Clock } from '../../core/types';
 import { IVersionDataProvider } from '../../providers/data-provider.interface';
 import { IStorageProvider } from '../../providers/storage-provider.interface';
 
@@ -41,12 +41,22 @@ export interface VersionCheckContextValue {
   handleUpdateNow: () => Promise<void>;
   /** Handle remind later action */
   handleRemindLater: () => Promise<void>;
+  /** Handle skip this version action */
+  handleSkipVersion: () => Promise<void>;
   /** Reset version check data */
   resetVersionCheck: () => Promise<void>;
   /** Get changelog for latest version */
   getChangeLog: () => Promise<string | null>;
   /** Check if update is mandatory */
   isUpdateMandatory: () => Promise<boolean>;
+  /** Upgrade detected on startup, until it is marked as seen */
+  upgrade: UpgradeEvent | null;
+  /** Get changelog for the versions installed by an upgrade */
+  getUpgradeChangeLog: (upgrade: UpgradeEvent) => Promise<string | null>;
+  /** Acknowledge the detected upgrade */
+  markUpgradeSeen: () => Promise<void>;
+  /** Clock used by the version checker (for scheduling in hooks) */
+  clock: Clock;
 }
 
 const VersionCheckContext = createContext<VersionCheckContextValue | undefined>(undefined);
@@ -86,6 +96,7 @@ export interface UpdateDialogProps {
   versionInfo: VersionInfo;
   onUpdateNow: () => Promise<void>;
   onRemindLater: () => Promise<void>;
+  onSkipVersion?: () => Promise<void>;
   isUpdateMandatory?: boolean;
   changeLog?: string | null;
 }
@@ -112,6 +123,7 @@ export const VersionCheckProvider: React.FC<VersionCheckProviderProps> = ({
   const [error, setError] = useState<Error | null>(null);
   const [currentVersion, setCurrentVersion] = useState<string | null>(null);
   const [formattedVersion, setFormattedVersion] = useState<string | null>(null);
+  const [upgrade, setUpgrade] = useState<UpgradeEvent | null>(null);
 
   // Create version checker instance
   const versionChecker = useMemo(
@@ -119,15 +131,30 @@ export const VersionCheckProvider: React.FC<VersionCheckProviderProps> = ({
     [dataProvider, storageProvider, options]
   );
 
-  // Initialize version checker
+  // Initialize version checker and detect a completed upgrade
   useEffect(() => {
-    versionChecker.initialize().catch(console.error);
+    versionChecker
+      .initialize()
+      .then(() => versionChecker.detectUpgrade())
+      .then(setUpgrade)
+      .catch(console.error);
 
     return () => {
       versionChecker.dispose().catch(console.error);
     };
   }, [versionChecker]);
 
+  // Show prompts that were held by quiet hours, session age or idle deferral
+  useEffect(
+    () =>
+      versionChecker.on('promptReady', ({ result }) => {
+        setVersionInfo(result.versionInfo);
+        setShowUpdateDialog(true);
+        onShowUpdateDialog?.(result.versionInfo);
+      }),
+    [versionChecker, onShowUpdateDialog]
+  );
+
   // Get initial version info
   useEffect(() => {
     const loadVersions = async () => {
@@ -198,6 +225,16 @@ export const VersionCheckProvider: React.FC<VersionCheckProviderProps> = ({
     await versionChecker.setRemindMeLater();
   }, [versionChecker, onHideUpdateDialog]);
 
+  // Handle skip this version
+  const handleSkipVersion = useCallback(async () => {
+    setShowUpdateDialog(false);
+    onHideUpdateDialog?.();
+
+    if (versionInfo?.latestVersion) {
+      await versionChecker.skipVersion(versionInfo.latestVersion);
+    }
+  }, [versionChecker, versionInfo, onHideUpdateDialog]);
+
   // Reset version check data
   const resetVersionCheck = useCallback(async () => {
     await versionChecker.resetVersionCheckData();
@@ -216,6 +253,20 @@ export const VersionCheckProvider: React.FC<VersionCheckProviderProps> = ({
     return await versionChecker.isUpdateMandatory();
   }, [versionChecker]);
 
+  // Get changelog for an upgrade
+  const getUpgradeChangeLog = useCallback(
+    async (detected: UpgradeEvent) => {
+      return await versionChecker.getUpgradeChangeLog(detected);
+    },
+    [versionChecker]
+  );
+
+  // Acknowledge the detected upgrade
+  const markUpgradeSeen = useCallback(async () => {
+    await versionChecker.markUpgradeSeen();
+    setUpgrade(null);
+  }, [versionChecker]);
+
   // Check on mount if enabled
   useEffect(() => {
     if (checkOnMount) {
@@ -245,9 +296,14 @@ export const VersionCheckProvider: React.FC<VersionCheckProviderProps> = ({
       checkForUpdates,
       handleUpdateNow,
       handleRemindLater,
+      handleSkipVersion,
       resetVersionCheck,
       getChangeLog,
       isUpdateMandatory,
+      upgrade,
+      getUpgradeChangeLog,
+      markUpgradeSeen,
+      clock: versionChecker.getClock(),
     }),
     [
       versionInfo,
@@ -259,9 +315,14 @@ export const VersionCheckProvider: React.FC<VersionCheckProviderProps> = ({
       checkForUpdates,
       handleUpdateNow,
       handleRemindLater,
+      handleSkipVersion,
       resetVersionCheck,
       getChangeLog,
       isUpdateMandatory,
+      upgrade,
+      getUpgradeChangeLog,
+      markUpgradeSeen,
+      versionChecker,
     ]
   );
 
@@ -274,6 +335,8 @@ export const VersionCheckProvider: React.FC<VersionCheckProviderProps> = ({
           versionInfo={versionInfo}
           onUpdateNow={handleUpdateNow}
           onRemindLater={handleRemindLater}
+          onSkipVersion={handleSkipVersion}
+          isUpdateMandatory={versionInfo.updateType === 'required'}
         />
       )}
     </VersionCheckContext.Provider>
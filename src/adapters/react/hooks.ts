@@ -4,7 +4,7 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { VersionChecker } from '../../core/version-checker';
-import { VersionInfo } from '../../core/types';
+import { VersionInfo, VersionCheckOptions } from '../../core/types';
 import { IVersionDataProvider } from '../../providers/data-provider.interface';
 import { IStorageProvider } from '../../providers/storage-provider.interface';
 import { useVersionCheck } from './VersionCheckContext';
@@ -51,30 +51,30 @@ export const usePeriodicVersionCheck = (
   intervalMs: number = 60 * 60 * 1000, // Default: 1 hour
   enabled: boolean = true
 ) => {
-  const { checkForUpdates } = useVersionCheck();
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const { checkForUpdates, clock } = useVersionCheck();
+  const timerRef = useRef<unknown>(null);
 
   useEffect(() => {
     if (!enabled) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
       return;
     }
 
-    // Setup interval
-    intervalRef.current = setInterval(() => {
-      checkForUpdates();
-    }, intervalMs);
+    // Schedule through the checker's clock so time can be controlled in tests
+    const schedule = () => {
+      timerRef.current = clock.setTimeout(() => {
+        checkForUpdates();
+        schedule();
+      }, intervalMs);
+    };
+    schedule();
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+      if (timerRef.current !== null) {
+        clock.clearTimeout(timerRef.current);
+        timerRef.current = null;
       }
     };
-  }, [checkForUpdates, intervalMs, enabled]);
+  }, [checkForUpdates, clock, intervalMs, enabled]);
 };
 
 /**
@@ -104,6 +104,7 @@ export const useVisibilityVersionCheck = (enabled: boolean = true) => {
 /**
  * Standalone hook for version checking without context
  * Useful when you want to manage the version checking logic yourself
+ * @param checkerOptions Options for the underlying VersionChecker, e.g. a `clock`
  */
 export const useStandaloneVersionChecker = (
   dataProvider: IVersionDataProvider,
@@ -112,7 +113,8 @@ export const useStandaloneVersionChecker = (
     checkOnMount?: boolean;
     checkOnFocus?: boolean;
     checkInterval?: number;
-  }
+  },
+  checkerOptions?: VersionCheckOptions
 ) => {
   const [versionInfo, setVersionInfo] = useState<VersionInfo | null>(null);
   const [isChecking, setIsChecking] = useState(false);
@@ -123,7 +125,7 @@ export const useStandaloneVersionChecker = (
 
   // Initialize version checker
   useEffect(() => {
-    const checker = new VersionChecker(dataProvider, storageProvider);
+    const checker = new VersionChecker(dataProvider, storageProvider, checkerOptions);
     versionCheckerRef.current = checker;
 
     checker.initialize().catch(console.error);
@@ -131,7 +133,7 @@ export const useStandaloneVersionChecker = (
     return () => {
       checker.dispose().catch(console.error);
     };
-  }, [dataProvider, storageProvider]);
+  }, [dataProvider, storageProvider, checkerOptions]);
 
   // Check for updates
   const checkForUpdates = useCallback(async () => {
@@ -177,13 +179,24 @@ export const useStandaloneVersionChecker = (
     return () => window.removeEventListener('focus', handleFocus);
   }, [checkForUpdates, options?.checkOnFocus]);
 
-  // Periodic checking
+  // Periodic checking through the checker's clock
   useEffect(() => {
-    if (!options?.checkInterval) return;
+    const checker = versionCheckerRef.current;
+    const checkInterval = options?.checkInterval;
+    if (!checker || !checkInterval) return;
+
+    const clock = checker.getClock();
+    let timer: unknown = null;
+    const schedule = () => {
+      timer = clock.setTimeout(() => {
+        checkForUpdates();
+        schedule();
+      }, checkInterval);
+    };
+    schedule();
 
-    const interval = setInterval(checkForUpdates, options.checkInterval);
-    return () => clearInterval(interval);
-  }, [checkForUpdates, options?.checkInterval]);
+    return () => clock.clearTimeout(timer);
+  }, [checkForUpdates, options?.checkInterval, dataProvider, storageProvider, checkerOptions]);
 
   return {
     versionInfo,
@@ -225,4 +238,45 @@ export const useUpdateStatus = () => {
     error,
     isDialogVisible: showUpdateDialog,
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Hook for showing "What's New" after the app was updated
+ * Returns the detected upgrade and its changelog until markSeen() is called
+ */
+export const useWhatsNew = () => {
+  const { upgrade, getUpgradeChangeLog, markUpgradeSeen } = useVersionCheck();
+  const [changeLog, setChangeLog] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!upgrade) {
+      setChangeLog(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    getUpgradeChangeLog(upgrade)
+      .then(log => {
+        if (!cancelled) setChangeLog(log);
+      })
+      .catch(console.error)
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [upgrade, getUpgradeChangeLog]);
+
+  return {
+    upgrade,
+    hasUpgrade: !!upgrade,
+    changeLog,
+    isLoading,
+    markSeen: markUpgradeSeen,
+  };
+};
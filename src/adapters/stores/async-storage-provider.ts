@@ -4,6 +4,7 @@
  */
 
 import { BaseStorageProvider } from '../../providers/storage-provider.interface';
+import { ReleaseChannel } from '../../core/types';
 
 /**
  * Interface matching React Native AsyncStorage API
@@ -93,6 +94,14 @@ export class AsyncStorageProvider extends BaseStorageProvider {
     }
   }
 
+  async resetDismissCount(): Promise<void> {
+    try {
+      await this.storage.removeItem(this.getKey('dismissCount'));
+    } catch (error) {
+      console.error('Error resetting dismiss count:', error);
+    }
+  }
+
   async getLastShownVersion(): Promise<string | null> {
     try {
       return await this.storage.getItem(this.getKey('lastShownVersion'));
@@ -110,6 +119,101 @@ export class AsyncStorageProvider extends BaseStorageProvider {
     }
   }
 
+  async getLastSeenVersion(): Promise<string | null> {
+    try {
+      return await this.storage.getItem(this.getKey('lastSeenVersion'));
+    } catch (error) {
+      console.error('Error reading last seen version:', error);
+      return null;
+    }
+  }
+
+  async setLastSeenVersion(version: string): Promise<void> {
+    try {
+      await this.storage.setItem(this.getKey('lastSeenVersion'), version);
+    } catch (error) {
+      console.error('Error setting last seen version:', error);
+    }
+  }
+
+  async getSkippedVersion(): Promise<string | null> {
+    try {
+      return await this.storage.getItem(this.getKey('skippedVersion'));
+    } catch (error) {
+      console.error('Error reading skipped version:', error);
+      return null;
+    }
+  }
+
+  async setSkippedVersion(version: string): Promise<void> {
+    try {
+      await this.storage.setItem(this.getKey('skippedVersion'), version);
+    } catch (error) {
+      console.error('Error setting skipped version:', error);
+    }
+  }
+
+  async clearSkippedVersion(): Promise<void> {
+    try {
+      await this.storage.removeItem(this.getKey('skippedVersion'));
+    } catch (error) {
+      console.error('Error clearing skipped version:', error);
+    }
+  }
+
+  async getDeviceId(): Promise<string | null> {
+    try {
+      return await this.storage.getItem(this.getKey('deviceId'));
+    } catch (error) {
+      console.error('Error reading device id:', error);
+      return null;
+    }
+  }
+
+  async setDeviceId(deviceId: string): Promise<void> {
+    try {
+      await this.storage.setItem(this.getKey('deviceId'), deviceId);
+    } catch (error) {
+      console.error('Error setting device id:', error);
+    }
+  }
+
+  async getPromptImpressions(): Promise<number[]> {
+    try {
+      const value = await this.storage.getItem(this.getKey('promptImpressions'));
+      return value ? (JSON.parse(value) as number[]) : [];
+    } catch (error) {
+      console.error('Error reading prompt impressions:', error);
+      return [];
+    }
+  }
+
+  async setPromptImpressions(timestamps: number[]): Promise<void> {
+    try {
+      await this.storage.setItem(this.getKey('promptImpressions'), JSON.stringify(timestamps));
+    } catch (error) {
+      console.error('Error setting prompt impressions:', error);
+    }
+  }
+
+  async getReleaseChannels(): Promise<ReleaseChannel[] | null> {
+    try {
+      const value = await this.storage.getItem(this.getKey('releaseChannels'));
+      return value ? (JSON.parse(value) as ReleaseChannel[]) : null;
+    } catch (error) {
+      console.error('Error reading release channels:', error);
+      return null;
+    }
+  }
+
+  async setReleaseChannels(channels: ReleaseChannel[]): Promise<void> {
+    try {
+      await this.storage.setItem(this.getKey('releaseChannels'), JSON.stringify(channels));
+    } catch (error) {
+      console.error('Error setting release channels:', error);
+    }
+  }
+
   async getAutoUpdateEnabled(): Promise<boolean> {
     try {
       const value = await this.storage.getItem(this.getKey('autoUpdateEnabled'));
@@ -135,6 +239,11 @@ export class AsyncStorageProvider extends BaseStorageProvider {
       'remindLaterTime',
       'dismissCount',
       'lastShownVersion',
+      'lastSeenVersion',
+      'skippedVersion',
+      'deviceId',
+      'promptImpressions',
+      'releaseChannels',
       'autoUpdateEnabled'
     ];
 
@@ -172,6 +281,11 @@ export class AsyncStorageProvider extends BaseStorageProvider {
         'remindLaterTime',
         'dismissCount',
         'lastShownVersion',
+        'lastSeenVersion',
+        'skippedVersion',
+        'deviceId',
+        'promptImpressions',
+        'releaseChannels',
         'autoUpdateEnabled'
       ];
 
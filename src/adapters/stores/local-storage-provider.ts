@@ -4,6 +4,7 @@
  */
 
 import { BaseStorageProvider } from '../../providers/storage-provider.interface';
+import { ReleaseChannel } from '../../core/types';
 
 export class LocalStorageProvider extends BaseStorageProvider {
   private readonly prefix: string;
@@ -80,6 +81,14 @@ export class LocalStorageProvider extends BaseStorageProvider {
     }
   }
 
+  async resetDismissCount(): Promise<void> {
+    try {
+      localStorage.removeItem(this.getKey('dismissCount'));
+    } catch (error) {
+      console.error('Error resetting dismiss count:', error);
+    }
+  }
+
   async getLastShownVersion(): Promise<string | null> {
     try {
       return localStorage.getItem(this.getKey('lastShownVersion'));
@@ -97,6 +106,101 @@ export class LocalStorageProvider extends BaseStorageProvider {
     }
   }
 
+  async getLastSeenVersion(): Promise<string | null> {
+    try {
+      return localStorage.getItem(this.getKey('lastSeenVersion'));
+    } catch (error) {
+      console.error('Error reading last seen version:', error);
+      return null;
+    }
+  }
+
+  async setLastSeenVersion(version: string): Promise<void> {
+    try {
+      localStorage.setItem(this.getKey('lastSeenVersion'), version);
+    } catch (error) {
+      console.error('Error setting last seen version:', error);
+    }
+  }
+
+  async getSkippedVersion(): Promise<string | null> {
+    try {
+      return localStorage.getItem(this.getKey('skippedVersion'));
+    } catch (error) {
+      console.error('Error reading skipped version:', error);
+      return null;
+    }
+  }
+
+  async setSkippedVersion(version: string): Promise<void> {
+    try {
+      localStorage.setItem(this.getKey('skippedVersion'), version);
+    } catch (error) {
+      console.error('Error setting skipped version:', error);
+    }
+  }
+
+  async clearSkippedVersion(): Promise<void> {
+    try {
+      localStorage.removeItem(this.getKey('skippedVersion'));
+    } catch (error) {
+      console.error('Error clearing skipped version:', error);
+    }
+  }
+
+  async getDeviceId(): Promise<string | null> {
+    try {
+      return localStorage.getItem(this.getKey('deviceId'));
+    } catch (error) {
+      console.error('Error reading device id:', error);
+      return null;
+    }
+  }
+
+  async setDeviceId(deviceId: string): Promise<void> {
+    try {
+      localStorage.setItem(this.getKey('deviceId'), deviceId);
+    } catch (error) {
+      console.error('Error setting device id:', error);
+    }
+  }
+
+  async getPromptImpressions(): Promise<number[]> {
+    try {
+      const value = localStorage.getItem(this.getKey('promptImpressions'));
+      return value ? (JSON.parse(value) as number[]) : [];
+    } catch (error) {
+      console.error('Error reading prompt impressions:', error);
+      return [];
+    }
+  }
+
+  async setPromptImpressions(timestamps: number[]): Promise<void> {
+    try {
+      localStorage.setItem(this.getKey('promptImpressions'), JSON.stringify(timestamps));
+    } catch (error) {
+      console.error('Error setting prompt impressions:', error);
+    }
+  }
+
+  async getReleaseChannels(): Promise<ReleaseChannel[] | null> {
+    try {
+      const value = localStorage.getItem(this.getKey('releaseChannels'));
+      return value ? (JSON.parse(value) as ReleaseChannel[]) : null;
+    } catch (error) {
+      console.error('Error reading release channels:', error);
+      return null;
+    }
+  }
+
+  async setReleaseChannels(channels: ReleaseChannel[]): Promise<void> {
+    try {
+      localStorage.setItem(this.getKey('releaseChannels'), JSON.stringify(channels));
+    } catch (error) {
+      console.error('Error setting release channels:', error);
+    }
+  }
+
   async getAutoUpdateEnabled(): Promise<boolean> {
     try {
       const value = localStorage.getItem(this.getKey('autoUpdateEnabled'));
@@ -122,6 +226,11 @@ export class LocalStorageProvider extends BaseStorageProvider {
       'remindLaterTime',
       'dismissCount',
       'lastShownVersion',
+      'lastSeenVersion',
+      'skippedVersion',
+      'deviceId',
+      'promptImpressions',
+      'releaseChannels',
       'autoUpdateEnabled'
     ];
 
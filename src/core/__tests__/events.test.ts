@@ -0,0 +1,56 @@
+import { TypedEventEmitter } from '../events';
+
+interface TestEvents {
+  ping: number;
+  pong: string;
+}
+
+describe('TypedEventEmitter', () => {
+  it('calls a once() listener for the next event only', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const listener = jest.fn();
+
+    emitter.once('ping', listener);
+    emitter.emit('ping', 1);
+    emitter.emit('ping', 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it('removes a once() listener with off() and the original listener', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const listener = jest.fn();
+
+    emitter.once('ping', listener);
+    emitter.off('ping', listener);
+    emitter.emit('ping', 1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('removes a once() listener with the returned unsubscribe function', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const listener = jest.fn();
+
+    const unsubscribe = emitter.once('ping', listener);
+    unsubscribe();
+    emitter.emit('ping', 1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('keeps once() registrations of the same listener separate per event', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const listener = jest.fn();
+
+    emitter.once('ping', listener);
+    emitter.once('pong', listener);
+    emitter.off('ping', listener);
+    emitter.emit('ping', 1);
+    emitter.emit('pong', 'a');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('a');
+  });
+});
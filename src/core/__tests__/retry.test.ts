@@ -0,0 +1,65 @@
+import { resolveRetryOptions, retryWithBackoff } from '../retry';
+import { ManualClock } from '../clock';
+import { DEFAULT_RETRY_OPTIONS } from '../types';
+import { HttpError, StoreListingParseError, TimeoutError, isTransientError } from '../errors';
+
+describe('resolveRetryOptions', () => {
+  it('uses the defaults for missing and undefined fields', () => {
+    expect(resolveRetryOptions()).toEqual(DEFAULT_RETRY_OPTIONS);
+    expect(resolveRetryOptions({ retries: undefined, baseDelay: 100 })).toEqual({
+      ...DEFAULT_RETRY_OPTIONS,
+      baseDelay: 100,
+    });
+  });
+
+  it('clamps the retry count to at least 0', () => {
+    expect(resolveRetryOptions({ retries: -1 }).retries).toBe(0);
+    expect(resolveRetryOptions({ retries: NaN }).retries).toBe(0);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('stops after the configured retries', async () => {
+    const clock = new ManualClock(0);
+    const operation = jest.fn(async () => {
+      throw new Error('unavailable');
+    });
+
+    const result = retryWithBackoff(operation, resolveRetryOptions({ retries: 2, jitter: false }), clock);
+    const settled = result.catch(error => error);
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+      clock.advance(DEFAULT_RETRY_OPTIONS.maxDelay);
+    }
+
+    expect(await settled).toEqual(new Error('unavailable'));
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('isTransientError', () => {
+  it('retries server errors, timeouts and network failures', () => {
+    expect(isTransientError(new HttpError('https://example.com', 503))).toBe(true);
+    expect(isTransientError(new HttpError('https://example.com', 429))).toBe(true);
+    expect(isTransientError(new TimeoutError('getLatestVersion', 1000))).toBe(true);
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('does not retry client errors and parse failures', () => {
+    expect(isTransientError(new HttpError('https://example.com', 404))).toBe(false);
+    expect(isTransientError(new StoreListingParseError('google-play', 'current version not found'))).toBe(
+      false
+    );
+  });
+
+  it('makes retryWithBackoff fail on the first attempt', async () => {
+    const operation = jest.fn(async () => {
+      throw new HttpError('https://example.com', 404);
+    });
+
+    await expect(retryWithBackoff(operation, resolveRetryOptions(), new ManualClock(0))).rejects.toBeInstanceOf(
+      HttpError
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
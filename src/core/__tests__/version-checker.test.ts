@@ -0,0 +1,153 @@
+import { VersionChecker } from '../version-checker';
+import { ManualClock } from '../clock';
+import { calverScheme } from '../version-scheme';
+import { BaseVersionDataProvider } from '../../providers/data-provider.interface';
+import { InMemoryStorageProvider } from '../../providers/storage-provider.interface';
+import { AppStoreConfig, Platform, RemoteOptions, VersionRelease } from '../types';
+
+class StubDataProvider extends BaseVersionDataProvider {
+  latestVersion: string = '1.1.0';
+  rolloutPercentage: number | null = 50;
+  remoteOptionsError: Error | null = null;
+
+  async getCurrentVersion(): Promise<string> {
+    return '1.0.0';
+  }
+
+  async getLatestVersion(): Promise<string | null> {
+    return this.latestVersion;
+  }
+
+  getAppStoreConfig(): AppStoreConfig {
+    return { androidPackageName: 'com.example.notes' };
+  }
+
+  async getRolloutPercentage(): Promise<number | null> {
+    return this.rolloutPercentage;
+  }
+
+  async getRemoteOptions(_platform: Platform): Promise<RemoteOptions | null> {
+    if (this.remoteOptionsError) {
+      throw this.remoteOptionsError;
+    }
+    return null;
+  }
+}
+
+function createChecker(dataProvider: StubDataProvider, storage: InMemoryStorageProvider): VersionChecker {
+  return new VersionChecker(dataProvider, storage, {
+    getPlatform: () => 'android',
+    clock: new ManualClock(0),
+    retry: { retries: 0 },
+  });
+}
+
+describe('VersionChecker.explain', () => {
+  it('does not persist a new device id', async () => {
+    const storage = new InMemoryStorageProvider();
+    const checker = createChecker(new StubDataProvider(), storage);
+
+    const trace = await checker.explain();
+
+    expect(trace.steps.some(step => step.rule === 'not_in_rollout')).toBe(true);
+    expect(await storage.getDeviceId()).toBeNull();
+
+    // The next real check persists the id the dry run bucketed with
+    await checker.shouldShowUpdatePrompt();
+    expect(await storage.getDeviceId()).not.toBeNull();
+  });
+
+  it('does not emit providerError', async () => {
+    const dataProvider = new StubDataProvider();
+    dataProvider.remoteOptionsError = new Error('remote options unavailable');
+    const checker = createChecker(dataProvider, new InMemoryStorageProvider());
+    const listener = jest.fn();
+    checker.on('providerError', listener);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await checker.explain();
+    expect(listener).not.toHaveBeenCalled();
+
+    await checker.getEffectiveOptions({ forceRefresh: true });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('VersionChecker remind later', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  it('lets a new release through a window built up for an older one', async () => {
+    const clock = new ManualClock(0);
+    const dataProvider = new StubDataProvider();
+    dataProvider.rolloutPercentage = null;
+    const storage = new InMemoryStorageProvider();
+    const checker = new VersionChecker(dataProvider, storage, {
+      getPlatform: () => 'android',
+      clock,
+      cacheTtl: 0,
+      remindLaterSchedule: [DAY, 3 * DAY, 7 * DAY],
+    });
+
+    // Dismiss 1.1.0 three times: 1 day, 3 days, then 7 days
+    let previousWait = 0;
+    for (const wait of [DAY, 3 * DAY, 7 * DAY]) {
+      clock.advance(previousWait);
+      expect((await checker.shouldShowUpdatePrompt()).shouldShowPrompt).toBe(true);
+      await checker.setRemindMeLater();
+      expect(await storage.getRemindLaterTime()).toBe(clock.now() + wait);
+      previousWait = wait;
+    }
+    expect(await storage.getDismissCount()).toBe(3);
+
+    // A day into the 7-day window the same release stays hidden
+    clock.advance(DAY);
+    expect((await checker.shouldShowUpdatePrompt()).skipReason).toBe('remind_later');
+
+    // Then 2.0.0 ships
+    dataProvider.latestVersion = '2.0.0';
+    expect((await checker.explain()).decidedBy).toBe('show');
+
+    const result = await checker.shouldShowUpdatePrompt();
+    expect(result.shouldShowPrompt).toBe(true);
+    expect(result.versionInfo.latestVersion).toBe('2.0.0');
+    expect(await storage.getDismissCount()).toBe(0);
+
+    // Dismissing the new release starts the schedule over
+    await checker.setRemindMeLater();
+    expect(await storage.getRemindLaterTime()).toBe(clock.now() + DAY);
+  });
+});
+
+describe('VersionChecker.getChangeLogSince', () => {
+  it('orders releases with the configured scheme', async () => {
+    class CalVerDataProvider extends StubDataProvider {
+      async getLatestVersion(): Promise<string | null> {
+        return '2026.10.2';
+      }
+
+      async getVersionHistory(): Promise<VersionRelease[]> {
+        return ['2026.9.1', '2026.10.2', '2026.10', '26.10.1', '2026.8'].map(version => ({
+          version,
+          notes: `Notes for ${version}`,
+        }));
+      }
+    }
+
+    const dataProvider = new CalVerDataProvider();
+    dataProvider.rolloutPercentage = null;
+    const checker = new VersionChecker(dataProvider, new InMemoryStorageProvider(), {
+      getPlatform: () => 'android',
+      clock: new ManualClock(0),
+      versionScheme: calverScheme,
+    });
+
+    const releases = await checker.getChangeLogSince('2026.9');
+
+    expect(releases.map(release => release.version)).toEqual([
+      '2026.10.2',
+      '26.10.1',
+      '2026.10',
+      '2026.9.1',
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  compareVersions,
+  isValidRange,
+  maxSatisfying,
+  parseRange,
+  parseVersion,
+  satisfies,
+} from '../version-compare';
+import { semverScheme, validateWithScheme } from '../version-scheme';
+
+describe('parseVersion', () => {
+  it('coerces a malformed fourth segment to 0 in lenient mode', () => {
+    expect(parseVersion('1.2.3.x').revision).toBe(0);
+    expect(parseVersion('1.2.3.7').revision).toBe(7);
+    expect(parseVersion('1.2.3').revision).toBeUndefined();
+  });
+
+  it('rejects the same input in strict mode', () => {
+    expect(() => parseVersion('1.2.3.x', { strict: true })).toThrow('1.2.3.x');
+  });
+});
+
+describe('semverScheme.isValid', () => {
+  it.each(['1', '1.0', '1.0.0', '1.0.0.4', '2.0.0-beta.1+build.7'])(
+    'accepts %s like parseStrict does',
+    version => {
+      expect(semverScheme.isValid(version)).toBe(true);
+      expect(() => semverScheme.parseStrict?.(version)).not.toThrow();
+    }
+  );
+
+  it.each(['1.0.0.0.1', '1.x', '1.0.0-beta..1', ''])('rejects %s like parseStrict does', version => {
+    expect(semverScheme.isValid(version)).toBe(false);
+    expect(validateWithScheme(semverScheme, version)).not.toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('orders versions by SemVer precedence', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.0.1',
+      '1.0.1',
+      '1.10.0',
+    ];
+
+    for (let i = 1; i < ordered.length; i++) {
+      expect(compareVersions(ordered[i - 1], ordered[i])).toBe(-1);
+      expect(compareVersions(ordered[i], ordered[i - 1])).toBe(1);
+    }
+  });
+
+  it('ignores build metadata', () => {
+    expect(compareVersions('1.0.0+build.1', '1.0.0+build.2')).toBe(0);
+  });
+});
+
+describe('parseRange', () => {
+  it.each([
+    ['^1.2.3', [['>=', '1.2.3'], ['<', '2.0.0-0']]],
+    ['^0.2.3', [['>=', '0.2.3'], ['<', '0.3.0-0']]],
+    ['^0.0.3', [['>=', '0.0.3'], ['<', '0.0.4-0']]],
+    ['~1.2.3', [['>=', '1.2.3'], ['<', '1.3.0-0']]],
+    ['~1', [['>=', '1.0.0'], ['<', '2.0.0-0']]],
+    ['1.2.x', [['>=', '1.2.0'], ['<', '1.3.0-0']]],
+    ['>1.x', [['>=', '2.0.0']]],
+    ['<=1.2', [['<', '1.3.0-0']]],
+    ['1.2.3 - 2.3', [['>=', '1.2.3'], ['<', '2.4.0-0']]],
+    ['>= 1.2.3 < 1.5.0', [['>=', '1.2.3'], ['<', '1.5.0']]],
+  ])('desugars %s', (range, comparators) => {
+    expect(parseRange(range)).toEqual([
+      comparators.map(([operator, version]) => ({ operator, version })),
+    ]);
+  });
+
+  it('treats "*" and a blank range as matching everything', () => {
+    expect(parseRange('*')).toEqual([[]]);
+    expect(parseRange('')).toEqual([[]]);
+    expect(satisfies('9.9.9', '*')).toBe(true);
+  });
+
+  it.each(['1.2.3 || ', ' || 1.2.3', '1.2.3 |||| 2.0.0', 'not-a-version', '1.2.3 - 2 - 3', '^1.2.3.x'])(
+    'rejects the malformed range %p',
+    range => {
+      expect(() => parseRange(range)).toThrow();
+      expect(isValidRange(range)).toBe(false);
+      expect(satisfies('9.9.9', range)).toBe(false);
+    }
+  );
+});
+
+describe('satisfies', () => {
+  it('matches any alternative', () => {
+    expect(satisfies('1.4.0', '>=1.2.0 <1.5.0 || 2.0.x')).toBe(true);
+    expect(satisfies('2.0.7', '>=1.2.0 <1.5.0 || 2.0.x')).toBe(true);
+    expect(satisfies('1.5.0', '>=1.2.0 <1.5.0 || 2.0.x')).toBe(false);
+  });
+
+  it('excludes pre-releases unless a comparator opts into the same release line', () => {
+    expect(satisfies('1.5.0-beta.1', '>=1.2.0 <1.5.0')).toBe(false);
+    expect(satisfies('1.3.0-beta.1', '^1.2.0')).toBe(false);
+    expect(satisfies('1.2.0-beta.3', '>=1.2.0-beta.2 <1.3.0')).toBe(true);
+    expect(satisfies('1.3.0-beta.1', '>=1.2.0-beta.2 <1.4.0')).toBe(false);
+  });
+
+  it('lets any pre-release match with includePrerelease', () => {
+    expect(satisfies('1.3.0-beta.1', '^1.2.0', { includePrerelease: true })).toBe(true);
+  });
+
+  it('picks the highest matching version', () => {
+    expect(maxSatisfying(['1.2.0', '1.4.1', '2.0.0', '1.5.0-rc.1'], '^1.2.0')).toBe('1.4.1');
+    expect(maxSatisfying(['1.2.0'], '^2.0.0')).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Small async cache with TTL expiry and in-flight request coalescing
+ */
+
+import { Clock } from './types';
+import { systemClock } from './clock';
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export class TtlCache {
+  private readonly ttl: number;
+  private readonly clock: Clock;
+  private entries: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private generation: number = 0;
+
+  /**
+   * @param ttl Time in milliseconds a loaded value stays fresh (0 disables caching,
+   * concurrent calls are still coalesced)
+   * @param clock Clock used for expiry
+   */
+  constructor(ttl: number, clock: Clock = systemClock) {
+    this.ttl = ttl;
+    this.clock = clock;
+  }
+
+  /**
+   * Get a cached value or load it
+   * Concurrent calls for the same key share a single load
+   * Failed loads are never cached
+   * @param forceRefresh Ignore a cached value (an in-flight load is still shared)
+   */
+  async get<T>(key: string, loader: () => Promise<T> | T, forceRefresh: boolean = false): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const entry = this.entries.get(key);
+    if (!forceRefresh && entry && this.clock.now() < entry.expiresAt) {
+      return entry.value as T;
+    }
+
+    const generation = this.generation;
+    const load: Promise<T> = Promise.resolve()
+      .then(loader)
+      .then(value => {
+        // Drop results that were invalidated while loading
+        if (this.ttl > 0 && generation === this.generation) {
+          this.entries.set(key, { value, expiresAt: this.clock.now() + this.ttl });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === load) {
+          this.inFlight.delete(key);
+        }
+      });
+
+    this.inFlight.set(key, load);
+    return load;
+  }
+
+  /**
+   * Invalidate one key, or every key when called without arguments
+   */
+  invalidate(key?: string): void {
+    this.generation++;
+
+    if (key === undefined) {
+      this.entries.clear();
+      this.inFlight.clear();
+      return;
+    }
+
+    this.entries.delete(key);
+    this.inFlight.delete(key);
+  }
+}
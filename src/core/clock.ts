@@ -0,0 +1,91 @@
+/**
+ * Clocks
+ * All time reads and timers go through a Clock so scheduling can be tested
+ * deterministically and debug builds can fast-forward time
+ */
+
+import { Clock, TimerHandle } from './types';
+
+/**
+ * Clock backed by Date.now() and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+interface ManualTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Controllable clock for tests and debug builds
+ * Time only moves when advance() or setTime() is called; due timers fire in order
+ */
+export class ManualClock implements Clock {
+  private currentTime: number;
+  private timers: ManualTimer[] = [];
+  private nextTimerId: number = 1;
+
+  constructor(startTime: number = Date.now()) {
+    this.currentTime = startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const id = this.nextTimerId++;
+    this.timers.push({ id, at: this.currentTime + Math.max(0, delay), callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  /**
+   * Move time forward, firing every timer that becomes due
+   * Timers scheduled by callbacks fire too if they fall inside the window
+   */
+  advance(ms: number): void {
+    const target = this.currentTime + ms;
+
+    while (true) {
+      const next = this.timers
+        .filter(timer => timer.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!next) {
+        break;
+      }
+
+      this.timers = this.timers.filter(timer => timer !== next);
+      this.currentTime = Math.max(this.currentTime, next.at);
+      next.callback();
+    }
+
+    this.currentTime = target;
+  }
+
+  /**
+   * Jump to an absolute time; moving forward fires due timers
+   */
+  setTime(time: number): void {
+    if (time >= this.currentTime) {
+      this.advance(time - this.currentTime);
+    } else {
+      this.currentTime = time;
+    }
+  }
+
+  /**
+   * Number of timers waiting to fire
+   */
+  getPendingTimerCount(): number {
+    return this.timers.length;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Decision trace recording for update prompt checks
+ */
+
+import { DecisionTrace, Platform, TraceOutcome, TraceValue } from './types';
+
+/**
+ * Collects the rules evaluated during a single check
+ */
+export class DecisionTraceRecorder {
+  private trace: DecisionTrace;
+
+  constructor(platform: Platform, checkedAt: number) {
+    this.trace = {
+      platform,
+      checkedAt,
+      steps: [],
+      decidedBy: 'show',
+    };
+  }
+
+  /**
+   * Record a rule; a blocking rule decides the outcome
+   */
+  record(rule: string, outcome: TraceOutcome, values: Record<string, TraceValue | undefined> = {}): void {
+    const recorded: Record<string, TraceValue> = {};
+    for (const [key, value] of Object.entries(values)) {
+      recorded[key] = value === undefined ? null : value;
+    }
+
+    this.trace.steps.push({ rule, outcome, values: recorded });
+    if (outcome === 'blocked') {
+      this.trace.decidedBy = rule;
+    }
+  }
+
+  /**
+   * Record the error that aborted the check
+   */
+  fail(error: unknown): void {
+    this.trace.decidedBy = 'error';
+    this.trace.error =
+      error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: 'Error', message: String(error) };
+  }
+
+  /**
+   * Get a copy of the trace collected so far
+   */
+  toJSON(): DecisionTrace {
+    return {
+      ...this.trace,
+      steps: this.trace.steps.map(step => ({ ...step, values: { ...step.values } })),
+      ...(this.trace.error && { error: { ...this.trace.error } }),
+    };
+  }
+}
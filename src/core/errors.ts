@@ -0,0 +1,99 @@
+/**
+ * Error types for version checking
+ */
+
+/**
+ * Thrown when a version string cannot be parsed in strict mode
+ */
+export class VersionParseError extends Error {
+  /** The full version string that failed to parse */
+  readonly input: string;
+  /** The offending segment, or null if the whole input is malformed */
+  readonly segment: string | null;
+
+  constructor(input: string, segment: string | null, reason?: string) {
+    const detail = reason ?? (segment !== null ? `invalid segment "${segment}"` : 'malformed version');
+    super(`Invalid version "${input}": ${detail}`);
+    this.name = 'VersionParseError';
+    this.input = input;
+    this.segment = segment;
+  }
+}
+
+/**
+ * Thrown when a provider call does not settle within the configured timeout
+ */
+export class TimeoutError extends Error {
+  /** Name of the operation that timed out */
+  readonly operation: string;
+  /** Timeout in milliseconds */
+  readonly timeout: number;
+
+  constructor(operation: string, timeout: number) {
+    super(`${operation} timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.operation = operation;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when a version manifest does not match the expected schema
+ */
+export class ManifestValidationError extends Error {
+  /** Dotted path of the offending field, e.g. "platforms.ios.latestVersion" */
+  readonly path: string;
+
+  constructor(path: string, reason: string) {
+    super(`Invalid version manifest at "${path}": ${reason}`);
+    this.name = 'ManifestValidationError';
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when an HTTP request returns an unexpected status
+ */
+export class HttpError extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** Requested URL */
+  readonly url: string;
+
+  constructor(url: string, status: number) {
+    super(`Request to ${url} failed with HTTP ${status}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.url = url;
+  }
+}
+
+/**
+ * Thrown when an app store listing cannot be parsed
+ */
+export class StoreListingParseError extends Error {
+  /** Store the listing came from */
+  readonly store: 'app-store' | 'google-play';
+
+  constructor(store: 'app-store' | 'google-play', reason: string) {
+    super(`Could not parse ${store === 'app-store' ? 'App Store' : 'Google Play'} listing: ${reason}`);
+    this.name = 'StoreListingParseError';
+    this.store = store;
+  }
+}
+
+/**
+ * Check if a failed call may succeed when retried
+ * Validation and parse errors and HTTP 4xx responses (except 408 and 429) are permanent
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+
+  return !(
+    error instanceof ManifestValidationError ||
+    error instanceof StoreListingParseError ||
+    error instanceof VersionParseError
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * Lifecycle events emitted by VersionChecker
+ */
+
+import { Platform, ReleaseChannel, UpgradeEvent, VersionCheckResult } from './types';
+
+/**
+ * Event name → payload map for VersionChecker events
+ */
+export interface VersionCheckerEventMap {
+  /** A prompt check started */
+  checkStarted: { platform: Platform };
+  /** A prompt check finished, whether or not the prompt should be shown */
+  checkCompleted: { result: VersionCheckResult };
+  /** An available update was not prompted for */
+  promptSuppressed: {
+    reason: NonNullable<VersionCheckResult['skipReason']>;
+    result: VersionCheckResult;
+  };
+  /** A due prompt is held by scheduling rules */
+  promptDeferred: { until: number | 'idle'; result: VersionCheckResult };
+  /** A held prompt became due and should be shown now */
+  promptReady: { result: VersionCheckResult };
+  /** The user chose "remind me later" */
+  remindLaterSet: { until: number };
+  /** The user chose to skip a version */
+  versionSkipped: { version: string };
+  /** The user switched release channels */
+  releaseChannelsChanged: { channels: ReleaseChannel[] };
+  /** The app was updated since it last ran */
+  upgradeDetected: { upgrade: UpgradeEvent };
+  /** Stored version check data was reset */
+  dataReset: void;
+  /** A data or storage provider call failed */
+  providerError: { error: unknown; operation: string };
+}
+
+export type VersionCheckerEventName = keyof VersionCheckerEventMap;
+
+export type VersionCheckerEventListener<K extends VersionCheckerEventName> = (
+  payload: VersionCheckerEventMap[K]
+) => void;
+
+/**
+ * Minimal typed event emitter
+ * Listener errors are logged and never interrupt the emitter
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {};
+  /** Wrappers registered by once(), keyed by the original listener so off() can find them */
+  private onceWrappers: {
+    [K in keyof Events]?: Map<(payload: Events[K]) => void, (payload: Events[K]) => void>;
+  } = {};
+
+  /**
+   * Subscribe to an event
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    let wrappers = this.onceWrappers[event];
+    if (!wrappers) {
+      wrappers = new Map();
+      this.onceWrappers[event] = wrappers;
+    }
+
+    // Like on(), registering the same listener twice has no effect
+    if (!wrappers.has(listener)) {
+      const wrapper = (payload: Events[K]) => {
+        this.off(event, listener);
+        listener(payload);
+      };
+      wrappers.set(listener, wrapper);
+      this.on(event, wrapper);
+    }
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener, including one added with once()
+   */
+  off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): void {
+    const wrapper = this.onceWrappers[event]?.get(listener);
+    if (wrapper) {
+      this.onceWrappers[event]?.delete(listener);
+      this.listeners[event]?.delete(wrapper);
+    }
+
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Emit an event to all current listeners
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners[event];
+    if (!set) {
+      return;
+    }
+
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of [...set]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove every listener
+   */
+  removeAllListeners(): void {
+    this.listeners = {};
+    this.onceWrappers = {};
+  }
+}
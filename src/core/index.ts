@@ -3,7 +3,17 @@
  */
 
 export * from './types';
+export * from './errors';
 export * from './version-compare';
 export * from './version-formatter';
+export * from './version-scheme';
+export * from './release-notes';
 export * from './stores';
+export * from './platform';
+export * from './rollout';
+export * from './events';
+export * from './clock';
+export * from './decision-trace';
+export * from './prompt-policy';
+export * from './schedule';
 export { VersionChecker } from './version-checker';
\ No newline at end of file
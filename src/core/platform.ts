@@ -0,0 +1,126 @@
+/**
+ * Platform detection
+ * Resolves the running platform from React Native, Electron or the browser user agent
+ */
+
+import { Platform } from './types';
+
+/** Environment signals used for platform detection */
+export interface PlatformEnvironment {
+  /** React Native's `Platform.OS`, passed in since this package does not import react-native */
+  reactNativeOS?: string;
+  /** Browser user agent */
+  userAgent?: string;
+  /** `navigator.maxTouchPoints`, used to tell iPadOS apart from macOS */
+  maxTouchPoints?: number;
+  /** `process.versions.electron`, set when running inside Electron */
+  electronVersion?: string;
+  /** `process.platform` (darwin, win32, linux, ...) */
+  processPlatform?: string;
+  /** Electron Mac App Store build (`process.mas`) */
+  mas?: boolean;
+  /** Electron Microsoft Store build (`process.windowsStore`) */
+  windowsStore?: boolean;
+  /** Running as a Snap package (`SNAP` environment variable) */
+  snap?: boolean;
+}
+
+interface ElectronProcess {
+  platform?: string;
+  versions?: { electron?: string };
+  mas?: boolean;
+  windowsStore?: boolean;
+  env?: Record<string, string | undefined>;
+}
+
+const REACT_NATIVE_PLATFORMS: Record<string, Platform> = {
+  ios: 'ios',
+  android: 'android',
+  web: 'web',
+  macos: 'macos',
+  windows: 'windows',
+};
+
+const DESKTOP_PLATFORMS: Platform[] = ['macos', 'windows', 'linux', 'electron'];
+
+/**
+ * Read platform signals from the current runtime
+ */
+export function readPlatformEnvironment(): PlatformEnvironment {
+  const environment: PlatformEnvironment = {};
+
+  if (typeof navigator !== 'undefined') {
+    environment.userAgent = navigator.userAgent || '';
+    environment.maxTouchPoints = navigator.maxTouchPoints || 0;
+  }
+
+  const proc = (globalThis as { process?: ElectronProcess }).process;
+  if (proc) {
+    environment.electronVersion = proc.versions?.electron;
+    environment.processPlatform = proc.platform;
+    environment.mas = proc.mas === true;
+    environment.windowsStore = proc.windowsStore === true;
+    environment.snap = !!proc.env?.SNAP;
+  }
+
+  return environment;
+}
+
+/**
+ * Check if a user agent belongs to an iPad running iPadOS 13+
+ * These report a desktop Mac user agent, but unlike Macs they have a touch screen
+ */
+export function isIPadOS(userAgent: string, maxTouchPoints: number = 0): boolean {
+  return /Macintosh/.test(userAgent) && maxTouchPoints > 1;
+}
+
+/**
+ * Map React Native's `Platform.OS` to a platform
+ */
+export function platformFromReactNative(os: string): Platform {
+  return REACT_NATIVE_PLATFORMS[os] ?? 'web';
+}
+
+/**
+ * Check if a platform is a desktop target
+ */
+export function isDesktopPlatform(platform: Platform): boolean {
+  return DESKTOP_PLATFORMS.includes(platform);
+}
+
+/**
+ * Detect the running platform
+ * @param overrides Signals that take precedence over the detected runtime, e.g. `{ reactNativeOS: Platform.OS }`
+ */
+export function detectPlatform(overrides: PlatformEnvironment = {}): Platform {
+  const environment = { ...readPlatformEnvironment(), ...overrides };
+  const userAgent = environment.userAgent ?? '';
+
+  if (environment.reactNativeOS) {
+    return platformFromReactNative(environment.reactNativeOS);
+  }
+
+  // Electron apps shipped through a desktop store update from that store
+  if (environment.electronVersion || /Electron\//.test(userAgent)) {
+    if (environment.mas) {
+      return 'macos';
+    }
+    if (environment.windowsStore) {
+      return 'windows';
+    }
+    if (environment.snap && environment.processPlatform === 'linux') {
+      return 'linux';
+    }
+    return 'electron';
+  }
+
+  if (/android/i.test(userAgent)) {
+    return 'android';
+  }
+
+  if (/iPad|iPhone|iPod/.test(userAgent) || isIPadOS(userAgent, environment.maxTouchPoints)) {
+    return 'ios';
+  }
+
+  return 'web';
+}
@@ -0,0 +1,333 @@
+/**
+ * Prompt policies
+ * Composable rules deciding whether an available update is prompted for
+ */
+
+import {
+  FrequencyCap,
+  Platform,
+  QuietHours,
+  RemoteOptions,
+  TraceValue,
+  UpdateType,
+  VersionCheckResult,
+  VersionInfo,
+  VersionScheme,
+} from './types';
+import { getQuietHoursEnd } from './schedule';
+import { IStorageProvider } from '../providers/storage-provider.interface';
+
+/**
+ * Everything a policy can look at while deciding
+ */
+export interface PromptPolicyContext {
+  platform: Platform;
+  versionInfo: VersionInfo;
+  updateType?: UpdateType;
+  /** Clock time of the check */
+  now: number;
+  /** Local options with remote overrides applied */
+  options: Required<RemoteOptions>;
+  storage: IStorageProvider;
+  /** Version scheme of the platform */
+  scheme: VersionScheme;
+  /** Check if the user is part of the staged rollout for a version */
+  isUserInRollout(version: string): Promise<boolean>;
+  /** Configured `frequencyCaps` */
+  frequencyCaps: FrequencyCap[];
+  /** Configured `maxPromptsPerSession` */
+  maxPromptsPerSession: number;
+  /** Prompts shown during this session */
+  sessionPromptCount: number;
+  /** Timestamps of recent prompts, across sessions when storage supports it */
+  getPromptImpressions(): Promise<number[]>;
+  /** Clock time the checker was created */
+  sessionStartedAt: number;
+  /** Configured `minSessionAge` */
+  minSessionAge: number;
+  /** Configured `quietHours` */
+  quietHours: QuietHours[];
+  /** Whether `deferUntilIdle` is enabled */
+  deferUntilIdle: boolean;
+  /** Whether this check runs after waiting for the app to become idle */
+  idle: boolean;
+}
+
+/**
+ * Outcome of a single policy
+ */
+export interface PromptPolicyResult {
+  /** False blocks the prompt and stops evaluation */
+  allow: boolean;
+  /** Reported skip reason when blocked (default: 'policy') */
+  skipReason?: NonNullable<VersionCheckResult['skipReason']>;
+  /** Values the policy looked at, recorded in the decision trace */
+  values?: Record<string, TraceValue | undefined>;
+  /** When blocked, hold the prompt and re-check at this time or once the app is idle */
+  deferUntil?: number | 'idle';
+}
+
+/**
+ * A rule evaluated in order by VersionChecker before showing the prompt
+ */
+export interface PromptPolicy {
+  /** Unique name, used in the decision trace and to find or replace the policy */
+  name: string;
+  /** Also evaluate for required updates (default: false, required updates bypass the policy) */
+  appliesToRequired?: boolean;
+  evaluate(context: PromptPolicyContext): Promise<PromptPolicyResult> | PromptPolicyResult;
+}
+
+/**
+ * Skip web if `skipWebPlatform` is enabled
+ */
+export const webPlatformPolicy: PromptPolicy = {
+  name: 'web_platform',
+  appliesToRequired: true,
+  evaluate: ({ platform, options }) => ({
+    allow: !(platform === 'web' && options.skipWebPlatform),
+    skipReason: 'web_platform',
+    values: { platform, skipWebPlatform: options.skipWebPlatform },
+  }),
+};
+
+/**
+ * Skip when the local or remote version is malformed
+ * The parse error is reported through the trace, not logged
+ */
+export const validVersionPolicy: PromptPolicy = {
+  name: 'invalid_version',
+  appliesToRequired: true,
+  evaluate: ({ versionInfo }) => {
+    const { invalidVersion } = versionInfo;
+    return {
+      allow: !invalidVersion,
+      skipReason: 'invalid_version',
+      values: {
+        currentVersion: versionInfo.currentVersion,
+        latestVersion: versionInfo.latestVersion,
+        latestChannel: versionInfo.latestChannel,
+        minimumSupportedVersion: versionInfo.minimumSupportedVersion,
+        invalidSource: invalidVersion?.source,
+        invalidReason: invalidVersion?.error.message,
+      },
+    };
+  },
+};
+
+/**
+ * Skip when no update is available
+ */
+export const updateAvailablePolicy: PromptPolicy = {
+  name: 'no_update',
+  appliesToRequired: true,
+  evaluate: ({ versionInfo, updateType }) => ({
+    allow: versionInfo.updateAvailable,
+    skipReason: 'no_update',
+    values: { updateAvailable: versionInfo.updateAvailable, updateType },
+  }),
+};
+
+/**
+ * Skip users outside the staged rollout of the latest version
+ */
+export const rolloutPolicy: PromptPolicy = {
+  name: 'not_in_rollout',
+  evaluate: async ({ versionInfo, isUserInRollout }) => {
+    if (!versionInfo.latestVersion) {
+      return { allow: true };
+    }
+
+    const inRollout = await isUserInRollout(versionInfo.latestVersion);
+    return { allow: inRollout, skipReason: 'not_in_rollout', values: { inRollout } };
+  },
+};
+
+/**
+ * Skip versions the user skipped, until a newer one ships
+ */
+export const skippedVersionPolicy: PromptPolicy = {
+  name: 'version_skipped',
+  evaluate: async ({ versionInfo, storage, scheme }) => {
+    if (!storage.getSkippedVersion || !versionInfo.latestVersion) {
+      return { allow: true };
+    }
+
+    const skippedVersion = await storage.getSkippedVersion();
+    const skipped = !!skippedVersion && scheme.compare(versionInfo.latestVersion, skippedVersion) <= 0;
+    return { allow: !skipped, skipReason: 'version_skipped', values: { skippedVersion } };
+  },
+};
+
+/**
+ * Check if the latest version is newer than the version last prompted for
+ * Requires storage support for the last shown version
+ */
+export async function isNewerThanLastShown(
+  storage: IStorageProvider,
+  versionInfo: VersionInfo,
+  scheme: VersionScheme
+): Promise<boolean> {
+  const { latestVersion } = versionInfo;
+  if (!latestVersion || !storage.getLastShownVersion) {
+    return false;
+  }
+
+  const lastShownVersion = await storage.getLastShownVersion();
+  return (
+    !!lastShownVersion &&
+    scheme.isValid(lastShownVersion) &&
+    scheme.compare(lastShownVersion, latestVersion) < 0
+  );
+}
+
+/**
+ * Skip during the "remind me later" period, unless a newer release shipped since
+ */
+export const remindLaterPolicy: PromptPolicy = {
+  name: 'remind_later',
+  evaluate: async ({ storage, now, versionInfo, scheme }) => {
+    const remindLaterTime = await storage.getRemindLaterTime();
+    const active = !!remindLaterTime && now < remindLaterTime;
+    // The window only covers the release it was set for
+    const newRelease = active && (await isNewerThanLastShown(storage, versionInfo, scheme));
+    return {
+      allow: !active || newRelease,
+      skipReason: 'remind_later',
+      values: { remindLaterTime, now, newRelease },
+    };
+  },
+};
+
+/**
+ * Skip when the last check ran less than `minCheckInterval` ago
+ */
+export const minCheckIntervalPolicy: PromptPolicy = {
+  name: 'too_soon',
+  evaluate: async ({ storage, now, options }) => {
+    const lastCheckTime = await storage.getLastCheckTime();
+    const { minCheckInterval } = options;
+    return {
+      allow: !(lastCheckTime && now - lastCheckTime < minCheckInterval),
+      skipReason: 'too_soon',
+      values: { lastCheckTime, minCheckInterval, now },
+    };
+  },
+};
+
+/**
+ * Skip when a prompt frequency cap is reached
+ */
+export const frequencyCapPolicy: PromptPolicy = {
+  name: 'frequency_capped',
+  evaluate: async context => {
+    const { now, frequencyCaps, maxPromptsPerSession, sessionPromptCount } = context;
+    if (sessionPromptCount >= maxPromptsPerSession) {
+      return {
+        allow: false,
+        skipReason: 'frequency_capped',
+        values: { sessionPromptCount, maxPromptsPerSession },
+      };
+    }
+
+    if (frequencyCaps.length === 0) {
+      return { allow: true, values: { sessionPromptCount } };
+    }
+
+    const impressions = await context.getPromptImpressions();
+    for (const { maxPrompts, period } of frequencyCaps) {
+      const promptCount = impressions.filter(timestamp => now - timestamp < period).length;
+      if (promptCount >= maxPrompts) {
+        return {
+          allow: false,
+          skipReason: 'frequency_capped',
+          values: { promptCount, maxPrompts, period, sessionPromptCount },
+        };
+      }
+    }
+
+    return { allow: true, values: { sessionPromptCount, impressionCount: impressions.length } };
+  },
+};
+
+/**
+ * Skip versions that were already shown
+ * An expired "remind me later" window lifts this so the reminder can fire
+ */
+export const lastShownVersionPolicy: PromptPolicy = {
+  name: 'already_shown',
+  evaluate: async ({ storage, versionInfo }) => {
+    if (!storage.getLastShownVersion || (await storage.getRemindLaterTime())) {
+      return { allow: true };
+    }
+
+    const lastShownVersion = await storage.getLastShownVersion();
+    return {
+      allow: lastShownVersion !== versionInfo.latestVersion,
+      skipReason: 'remind_later',
+      values: { lastShownVersion },
+    };
+  },
+};
+
+/**
+ * Hold a due prompt until the session is `minSessionAge` old
+ */
+export const sessionAgePolicy: PromptPolicy = {
+  name: 'session_age',
+  evaluate: ({ now, sessionStartedAt, minSessionAge }) => {
+    const readyAt = sessionStartedAt + minSessionAge;
+    return {
+      allow: now >= readyAt,
+      skipReason: 'deferred',
+      deferUntil: readyAt,
+      values: { sessionStartedAt, minSessionAge, now },
+    };
+  },
+};
+
+/**
+ * Hold a due prompt until quiet hours end
+ */
+export const quietHoursPolicy: PromptPolicy = {
+  name: 'quiet_hours',
+  evaluate: ({ now, quietHours }) => {
+    const quietUntil = getQuietHoursEnd(now, quietHours);
+    if (quietUntil === null) {
+      return { allow: true, values: { now } };
+    }
+
+    return { allow: false, skipReason: 'deferred', deferUntil: quietUntil, values: { now, quietUntil } };
+  },
+};
+
+/**
+ * Hold a due prompt until the app is idle when `deferUntilIdle` is enabled
+ */
+export const idlePolicy: PromptPolicy = {
+  name: 'idle',
+  evaluate: ({ deferUntilIdle, idle }) => ({
+    allow: !deferUntilIdle || idle,
+    skipReason: 'deferred',
+    deferUntil: 'idle',
+    values: { deferUntilIdle, idle },
+  }),
+};
+
+/**
+ * Default policies, in evaluation order
+ */
+export const DEFAULT_PROMPT_POLICIES: readonly PromptPolicy[] = [
+  webPlatformPolicy,
+  validVersionPolicy,
+  updateAvailablePolicy,
+  rolloutPolicy,
+  skippedVersionPolicy,
+  remindLaterPolicy,
+  minCheckIntervalPolicy,
+  frequencyCapPolicy,
+  lastShownVersionPolicy,
+  sessionAgePolicy,
+  quietHoursPolicy,
+  idlePolicy,
+];
@@ -0,0 +1,180 @@
+/**
+ * Release notes utilities
+ * Locale negotiation and conversion between plain-text changelogs and structured notes
+ */
+
+import {
+  LocalizedReleaseNotes,
+  ReleaseNoteCategory,
+  ReleaseNoteEntry,
+  ReleaseNotes,
+} from './types';
+
+/**
+ * Normalize a locale tag for comparison ("en_US" → "en-us")
+ */
+function normalizeLocale(locale: string): string {
+  return locale.trim().replace(/_/g, '-').toLowerCase();
+}
+
+/**
+ * Pick the best available locale for the requested locales
+ * Tries, for each requested locale in order: an exact match, then shorter
+ * prefixes ("zh-Hant-TW" → "zh-Hant" → "zh"), then any locale of the same language.
+ * Falls back to `fallback`, then to the first available locale.
+ * @returns The matching entry from `available` (original casing), or null if none
+ */
+export function negotiateLocale(
+  requested: string | string[],
+  available: string[],
+  fallback?: string
+): string | null {
+  if (available.length === 0) {
+    return null;
+  }
+
+  const byNormalized = new Map(available.map(locale => [normalizeLocale(locale), locale]));
+  const preferences = (Array.isArray(requested) ? requested : [requested]).filter(Boolean);
+
+  for (const preference of preferences) {
+    const subtags = normalizeLocale(preference).split('-');
+    for (let length = subtags.length; length > 0; length--) {
+      const match = byNormalized.get(subtags.slice(0, length).join('-'));
+      if (match) {
+        return match;
+      }
+    }
+
+    const language = subtags[0];
+    for (const [normalized, locale] of byNormalized) {
+      if (normalized.split('-')[0] === language) {
+        return locale;
+      }
+    }
+  }
+
+  if (fallback) {
+    const match = byNormalized.get(normalizeLocale(fallback));
+    if (match) {
+      return match;
+    }
+  }
+
+  return available[0];
+}
+
+/**
+ * Get the device's preferred locales, most preferred first
+ */
+export function detectDeviceLocales(): string[] {
+  if (typeof navigator !== 'undefined') {
+    if (Array.isArray(navigator.languages) && navigator.languages.length > 0) {
+      return [...navigator.languages];
+    }
+    if (navigator.language) {
+      return [navigator.language];
+    }
+  }
+
+  if (typeof Intl !== 'undefined') {
+    try {
+      return [Intl.DateTimeFormat().resolvedOptions().locale];
+    } catch {
+      // Fall through to the default
+    }
+  }
+
+  return ['en'];
+}
+
+/**
+ * Resolve structured release notes to the best matching locale
+ */
+export function localizeReleaseNotes(
+  notes: ReleaseNotes,
+  requested: string | string[]
+): LocalizedReleaseNotes {
+  const baseLocale = notes.locale ?? 'en';
+  const available = [baseLocale, ...Object.keys(notes.localizations ?? {})];
+  const locale = negotiateLocale(requested, available, baseLocale) ?? baseLocale;
+
+  const content =
+    locale !== baseLocale && notes.localizations?.[locale]
+      ? notes.localizations[locale]
+      : notes;
+
+  return {
+    version: notes.version,
+    locale,
+    title: content.title,
+    markdown: content.markdown,
+    entries: content.entries,
+  };
+}
+
+const CATEGORY_HEADINGS: Array<[RegExp, ReleaseNoteCategory]> = [
+  [/^(new|added|features?)$/i, 'new'],
+  [/^(improved|improvements?|changed|changes)$/i, 'improved'],
+  [/^(fixed|fix(es)?|bug ?fixes)$/i, 'fixed'],
+  [/^security$/i, 'security'],
+  [/^(deprecated|removed)$/i, 'deprecated'],
+];
+
+/**
+ * Convert a plain-text or markdown changelog into structured release notes
+ * Bullet lines become entries; headings such as "Fixed" or "## Security"
+ * set the category of the bullets below them. The original text is kept as markdown.
+ */
+export function releaseNotesFromText(version: string, text: string, locale?: string): ReleaseNotes {
+  const entries: ReleaseNoteEntry[] = [];
+  let category: ReleaseNoteCategory = 'other';
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+    if (bullet) {
+      entries.push({ category, text: bullet[1] });
+      continue;
+    }
+
+    const heading = line.replace(/^#+\s*/, '').replace(/:$/, '').trim();
+    const matched = CATEGORY_HEADINGS.find(([pattern]) => pattern.test(heading));
+    if (matched) {
+      category = matched[1];
+    }
+  }
+
+  return { version, locale, markdown: text, entries };
+}
+
+const CATEGORY_TITLES: Record<ReleaseNoteCategory, string> = {
+  new: 'New',
+  improved: 'Improved',
+  fixed: 'Fixed',
+  security: 'Security',
+  deprecated: 'Deprecated',
+  other: 'Other',
+};
+
+/**
+ * Render structured release notes as a plain-text changelog
+ * Uses the markdown body when present, otherwise groups entries by category
+ */
+export function formatReleaseNotes(notes: ReleaseNotes | LocalizedReleaseNotes): string {
+  if (notes.markdown) {
+    return notes.markdown;
+  }
+
+  const sections: string[] = [];
+  for (const category of Object.keys(CATEGORY_TITLES) as ReleaseNoteCategory[]) {
+    const entries = notes.entries.filter(entry => entry.category === category);
+    if (entries.length > 0) {
+      const lines = entries.map(entry => `- ${entry.text}`).join('\n');
+      sections.push(`${CATEGORY_TITLES[category]}:\n${lines}`);
+    }
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,95 @@
+/**
+ * Timeout and retry helpers for provider calls
+ */
+
+import { Clock, DEFAULT_RETRY_OPTIONS, RetryOptions } from './types';
+import { TimeoutError } from './errors';
+import { systemClock } from './clock';
+
+/**
+ * Run an async operation, rejecting with a TimeoutError if it takes too long
+ * @param timeout Timeout in milliseconds (0 or less disables the timeout)
+ */
+export function withTimeout<T>(
+  operation: () => Promise<T> | T,
+  timeout: number,
+  operationName: string = 'operation',
+  clock: Clock = systemClock
+): Promise<T> {
+  const promise = Promise.resolve().then(operation);
+  if (timeout <= 0) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = clock.setTimeout(
+      () => reject(new TimeoutError(operationName, timeout)),
+      timeout
+    );
+
+    promise.then(
+      value => {
+        clock.clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clock.clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Fill in missing retry options with the defaults
+ * Negative or non-numeric retry counts disable retries
+ */
+export function resolveRetryOptions(options: RetryOptions = {}): Required<RetryOptions> {
+  const retries = options.retries ?? DEFAULT_RETRY_OPTIONS.retries;
+  return {
+    retries: retries >= 0 ? retries : 0,
+    baseDelay: options.baseDelay ?? DEFAULT_RETRY_OPTIONS.baseDelay,
+    maxDelay: options.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay,
+    jitter: options.jitter ?? DEFAULT_RETRY_OPTIONS.jitter,
+    shouldRetry: options.shouldRetry ?? DEFAULT_RETRY_OPTIONS.shouldRetry,
+  };
+}
+
+/**
+ * Get the delay before a retry attempt using exponential backoff
+ * With jitter the delay is randomized between half and the full backoff
+ * @param attempt Zero-based retry attempt
+ */
+export function getBackoffDelay(attempt: number, options: Required<RetryOptions>): number {
+  const backoff = Math.min(options.maxDelay, options.baseDelay * Math.pow(2, attempt));
+  if (!options.jitter) {
+    return backoff;
+  }
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Run an async operation, retrying failures with exponential backoff
+ * Errors rejected by `shouldRetry` are rethrown immediately
+ */
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T> | T,
+  options: Required<RetryOptions>,
+  clock: Clock = systemClock
+): Promise<T> {
+  let attempt = 0;
+
+  while (true) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.retries || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const delay = getBackoffDelay(attempt, options);
+      await new Promise<void>(resolve => clock.setTimeout(resolve, delay));
+      attempt++;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Staged rollout utilities
+ * Deterministic bucketing so a user stays in (or out of) a rollout across sessions
+ */
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Place an id into a bucket between 0 (inclusive) and 100 (exclusive)
+ * The salt (usually the version) gives every release an independent cohort,
+ * while raising the percentage for the same release only ever adds users
+ */
+export function getRolloutBucket(id: string, salt: string = ''): number {
+  return (hashString(`${salt}:${id}`) % 10000) / 100;
+}
+
+/**
+ * Check if an id falls inside a percentage rollout for a version
+ * @param percentage Rollout percentage from 0 to 100
+ */
+export function isInRollout(id: string, version: string, percentage: number): boolean {
+  if (percentage >= 100) return true;
+  if (percentage <= 0) return false;
+  return getRolloutBucket(id, version) < percentage;
+}
+
+/**
+ * Generate a random device id for rollout bucketing
+ */
+export function generateDeviceId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Prompt scheduling helpers
+ * Quiet hours in device local time and idle detection
+ */
+
+import { Clock, QuietHours } from './types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse an "HH:MM" time of day into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  const minuteOfDay = match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : NaN;
+
+  // 24:00 is accepted as the end of the day
+  if (!match || parseInt(match[2], 10) > 59 || !(minuteOfDay <= MINUTES_PER_DAY)) {
+    throw new Error(`Invalid time of day "${time}", expected HH:MM`);
+  }
+
+  return minuteOfDay;
+}
+
+/**
+ * Check if a local time falls within a quiet-hours window
+ * Windows may wrap past midnight, e.g. 22:00–07:00
+ */
+function isWithinWindow(minuteOfDay: number, window: QuietHours): boolean {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+
+  if (start === end) {
+    return false;
+  }
+
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+}
+
+/**
+ * Find the quiet-hours window containing a timestamp, in device local time
+ */
+function findQuietWindow(timestamp: number, quietHours: QuietHours[]): QuietHours | undefined {
+  const date = new Date(timestamp);
+  const minuteOfDay = date.getHours() * 60 + date.getMinutes();
+  return quietHours.find(window => isWithinWindow(minuteOfDay, window));
+}
+
+/**
+ * Check if a timestamp falls within quiet hours
+ */
+export function isInQuietHours(timestamp: number, quietHours: QuietHours[]): boolean {
+  return findQuietWindow(timestamp, quietHours) !== undefined;
+}
+
+/**
+ * Get the first moment after `timestamp` outside every quiet-hours window
+ * Returns null when the timestamp is not within quiet hours
+ */
+export function getQuietHoursEnd(timestamp: number, quietHours: QuietHours[]): number | null {
+  let window = findQuietWindow(timestamp, quietHours);
+  if (!window) {
+    return null;
+  }
+
+  let end = timestamp;
+  // Overlapping windows are chained, bounded by the number of windows
+  for (let i = 0; window && i <= quietHours.length; i++) {
+    const endMinutes = parseTimeOfDay(window.end);
+    const next = new Date(end);
+    next.setHours(Math.floor(endMinutes / 60), endMinutes % 60, 0, 0);
+    if (next.getTime() <= end) {
+      next.setDate(next.getDate() + 1);
+    }
+
+    end = next.getTime();
+    window = findQuietWindow(end, quietHours);
+  }
+
+  return end;
+}
+
+/**
+ * Resolve once the app is idle
+ * Uses requestIdleCallback when available, otherwise the next clock tick
+ */
+export function waitForIdle(clock: Clock, timeout: number = 5000): Promise<void> {
+  return new Promise(resolve => {
+    const { requestIdleCallback } = globalThis as {
+      requestIdleCallback?: (callback: () => void, options?: { timeout: number }) => unknown;
+    };
+
+    if (typeof requestIdleCallback === 'function') {
+      requestIdleCallback(() => resolve(), { timeout });
+    } else {
+      clock.setTimeout(resolve, 0);
+    }
+  });
+}
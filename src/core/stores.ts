@@ -39,8 +39,60 @@ export function getAndroidStoreUrl(packageName?: string, customUrl?: string): st
   return `https://play.google.com/store/apps/details?id=${packageName}`;
 }
 
+/**
+ * Generate Mac App Store URL
+ * @param appStoreId The Mac App Store ID
+ * @param customUrl Optional custom URL to override default
+ */
+export function getMacStoreUrl(appStoreId?: string, customUrl?: string): string | null {
+  if (customUrl) {
+    return customUrl;
+  }
+
+  if (!appStoreId) {
+    return null;
+  }
+
+  return `https://apps.apple.com/app/id${appStoreId}?mt=12`;
+}
+
+/**
+ * Generate Microsoft Store URL
+ * @param productId The Microsoft Store product ID
+ * @param customUrl Optional custom URL to override default
+ */
+export function getWindowsStoreUrl(productId?: string, customUrl?: string): string | null {
+  if (customUrl) {
+    return customUrl;
+  }
+
+  if (!productId) {
+    return null;
+  }
+
+  return `https://apps.microsoft.com/detail/${productId}`;
+}
+
+/**
+ * Generate Snap Store URL
+ * @param snapName The Snap package name
+ * @param customUrl Optional custom URL to override default
+ */
+export function getLinuxStoreUrl(snapName?: string, customUrl?: string): string | null {
+  if (customUrl) {
+    return customUrl;
+  }
+
+  if (!snapName) {
+    return null;
+  }
+
+  return `https://snapcraft.io/${snapName}`;
+}
+
 /**
  * Get the appropriate store URL for a platform
+ * Desktop platforms without a store listing fall back to `desktopDownloadUrl`
  */
 export function getStoreUrl(platform: Platform, config: AppStoreConfig): string | null {
   switch (platform) {
@@ -48,6 +100,14 @@ export function getStoreUrl(platform: Platform, config: AppStoreConfig): string
       return getIosStoreUrl(config.iosAppStoreId, config.iosStoreUrl);
     case 'android':
       return getAndroidStoreUrl(config.androidPackageName, config.androidStoreUrl);
+    case 'macos':
+      return getMacStoreUrl(config.macAppStoreId, config.macStoreUrl) ?? config.desktopDownloadUrl ?? null;
+    case 'windows':
+      return getWindowsStoreUrl(config.windowsStoreId, config.windowsStoreUrl) ?? config.desktopDownloadUrl ?? null;
+    case 'linux':
+      return getLinuxStoreUrl(config.snapName, config.linuxStoreUrl) ?? config.desktopDownloadUrl ?? null;
+    case 'electron':
+      return config.desktopDownloadUrl ?? null;
     case 'web':
       return null;
     default:
@@ -72,11 +132,19 @@ export function isValidAndroidPackageName(packageName: string): boolean {
   return /^[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)+$/.test(packageName);
 }
 
+/**
+ * Validate a Microsoft Store product ID
+ */
+export function isValidWindowsStoreId(productId: string): boolean {
+  // Microsoft Store product IDs are 12 alphanumeric characters, e.g. 9NBLGGH4NNS1
+  return /^[0-9A-Z]{12}$/i.test(productId);
+}
+
 /**
  * Extract app ID from store URL
  */
 export function extractAppIdFromUrl(url: string, platform: Platform): string | null {
-  if (platform === 'ios') {
+  if (platform === 'ios' || platform === 'macos') {
     // Extract from URLs like: https://apps.apple.com/app/id123456789
     const match = url.match(/\/id(\d+)/);
     return match ? match[1] : null;
@@ -88,6 +156,18 @@ export function extractAppIdFromUrl(url: string, platform: Platform): string | n
     return match ? match[1] : null;
   }
 
+  if (platform === 'windows') {
+    // Extract from URLs like: https://apps.microsoft.com/detail/9NBLGGH4NNS1
+    const match = url.match(/\/detail\/(?:[^/?#]+\/)?([0-9A-Za-z]{12})(?:[/?#]|$)/);
+    return match ? match[1] : null;
+  }
+
+  if (platform === 'linux') {
+    // Extract from URLs like: https://snapcraft.io/my-app
+    const match = url.match(/snapcraft\.io\/([^/?#]+)/);
+    return match ? match[1] : null;
+  }
+
   return null;
 }
 
@@ -100,6 +180,14 @@ export function getStoreName(platform: Platform): string {
       return 'App Store';
     case 'android':
       return 'Google Play Store';
+    case 'macos':
+      return 'Mac App Store';
+    case 'windows':
+      return 'Microsoft Store';
+    case 'linux':
+      return 'Snap Store';
+    case 'electron':
+      return 'Download';
     case 'web':
       return 'Web';
     default:
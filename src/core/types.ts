@@ -2,14 +2,119 @@
  * Core types for version checking
  */
 
-export type Platform = 'ios' | 'android' | 'web';
+import { VersionParseError, isTransientError } from './errors';
+import { PromptPolicy } from './prompt-policy';
+
+export type Platform = 'ios' | 'android' | 'web' | 'macos' | 'windows' | 'linux' | 'electron';
+
+/** A single dot-separated pre-release identifier (numeric or alphanumeric) */
+export type PrereleaseIdentifier = string | number;
+
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Optional fourth numeric segment, e.g. the build number in "1.0.36.349" */
+  revision?: number;
+  /** Pre-release identifiers, e.g. ['beta', 3] for "2.0.0-beta.3" */
+  prerelease: PrereleaseIdentifier[];
+  /** Build metadata identifiers, e.g. ['build', '7'] for "2.0.0+build.7" */
+  build: string[];
+}
+
+/** The most significant part that differs between two versions */
+export type VersionDiffType = 'major' | 'minor' | 'patch' | 'build' | 'prerelease' | 'none';
+
+/** Operator of a single range comparator */
+export type RangeOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export interface RangeComparator {
+  operator: RangeOperator;
+  version: string;
+}
+
+/**
+ * A parsed version range
+ * Outer array is OR'ed ("||"), inner comparators are AND'ed;
+ * an empty comparator set matches every version
+ */
+export type VersionRange = RangeComparator[][];
+
+/**
+ * A versioning scheme: how version strings are parsed, ordered, validated and displayed
+ * Implement this for formats other than dotted numeric versions
+ */
+export interface VersionScheme<TParsed = unknown> {
+  /** Human-readable scheme name, e.g. "semver" */
+  readonly name: string;
+  /** Parse a version string into its components */
+  parse(version: string): TParsed;
+  /** Compare two versions: -1 if a < b, 0 if equal, 1 if a > b */
+  compare(a: string, b: string): number;
+  /** Whether a version string is valid in this scheme */
+  isValid(version: string): boolean;
+  /** Optional: Parse strictly, throwing a VersionParseError that names the bad segment */
+  parseStrict?(version: string): TParsed;
+  /** Format a version string into its canonical display form */
+  format(version: string): string;
+}
+
+/**
+ * How strongly an available update should be pushed
+ * - required: below the minimum supported version or flagged mandatory; bypasses all suppression
+ * - recommended: a major or minor release
+ * - optional: a patch, build or pre-release bump
+ */
+export type UpdateType = 'required' | 'recommended' | 'optional';
+
+/** Release channel a version is published to */
+export type ReleaseChannel = 'stable' | 'beta' | 'internal';
 
 export interface VersionInfo {
   currentVersion: string;
   latestVersion: string | null;
+  /** Channel the latest version was resolved from */
+  latestChannel?: ReleaseChannel;
   updateAvailable: boolean;
   storeUrl: string | null;
   platform: Platform;
+  /** Minimum supported version reported by the data provider, if any */
+  minimumSupportedVersion?: string | null;
+  /** Kind of update, set when an update is available */
+  updateType?: UpdateType;
+  /** Set when the local or remote version could not be parsed; no comparison is made */
+  invalidVersion?: {
+    source: 'current' | 'latest' | 'minimum';
+    error: VersionParseError;
+  };
+}
+
+/** Opaque handle returned by Clock.setTimeout */
+export type TimerHandle = unknown;
+
+/**
+ * Source of time and timers
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  /** Schedule a callback after a delay in milliseconds */
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+  /** Cancel a scheduled callback */
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export interface RetryOptions {
+  /** Number of retries after the first failed attempt */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on every attempt */
+  baseDelay?: number;
+  /** Upper bound for the retry delay in milliseconds */
+  maxDelay?: number;
+  /** Randomize delays to avoid synchronized retries across clients */
+  jitter?: boolean;
+  /** Decide whether a failed call is retried (default: transient errors only, see isTransientError) */
+  shouldRetry?: (error: unknown) => boolean;
 }
 
 export interface VersionCheckOptions {
@@ -17,10 +122,143 @@ export interface VersionCheckOptions {
   minCheckInterval?: number;
   /** Duration to wait after user selects "Remind Me Later" in milliseconds */
   remindLaterDuration?: number;
+  /**
+   * Escalating "Remind Me Later" durations in milliseconds, indexed by dismiss count
+   * The last entry is the cap; overrides remindLaterDuration when set
+   * e.g. [1 day, 3 days, 1 week]
+   */
+  remindLaterSchedule?: number[];
   /** Whether to skip version checking on web platform */
   skipWebPlatform?: boolean;
   /** Custom platform detection function */
   getPlatform?: () => Platform;
+  /** Versioning scheme used to compare versions, either global or per platform (default: semver) */
+  versionScheme?: VersionScheme | Partial<Record<Platform, VersionScheme>>;
+  /**
+   * Stable user id for staged rollout bucketing
+   * When it returns null, a device id persisted through the storage provider is used
+   */
+  getUserId?: () => string | null | Promise<string | null>;
+  /** How long provider results (latest version, store config) are cached in milliseconds; 0 disables */
+  cacheTtl?: number;
+  /** Timeout for each data provider call in milliseconds; 0 disables */
+  requestTimeout?: number;
+  /** Retry policy for failed data provider calls */
+  retry?: RetryOptions;
+  /** Preferred locales for release notes, most preferred first (default: device locales) */
+  getLocale?: () => string | string[];
+  /** Clock used for every time read and timer (default: system clock) */
+  clock?: Clock;
+  /** Caps on prompts shown across sessions, e.g. 3 per 7 days (default: none) */
+  frequencyCaps?: FrequencyCap[];
+  /** Maximum prompts per VersionChecker session (default: unlimited) */
+  maxPromptsPerSession?: number;
+  /** Windows in device local time during which a due prompt is held (default: none) */
+  quietHours?: QuietHours[];
+  /** Milliseconds since the checker was created before a prompt may show (default: 0) */
+  minSessionAge?: number;
+  /** Hold a due prompt until the app is idle; pass a function to supply your own idle signal */
+  deferUntilIdle?: boolean | (() => Promise<void>);
+  /** Channels to follow until the user picks their own (default: ['stable']) */
+  releaseChannels?: ReleaseChannel[];
+  /** Prompt rules in evaluation order, or a function adjusting the defaults */
+  promptPolicies?:
+    | readonly PromptPolicy[]
+    | ((defaults: readonly PromptPolicy[]) => readonly PromptPolicy[]);
+}
+
+/**
+ * A single release in a platform's version history
+ */
+export interface VersionRelease {
+  version: string;
+  /** Release notes for this version */
+  notes: string | null;
+  /** Release date (ISO 8601 string or timestamp in milliseconds) */
+  releaseDate?: string | number;
+  /** Whether this release had to be installed */
+  mandatory?: boolean;
+}
+
+/** Section a release note entry belongs to */
+export type ReleaseNoteCategory = 'new' | 'improved' | 'fixed' | 'security' | 'deprecated' | 'other';
+
+export interface ReleaseNoteEntry {
+  category: ReleaseNoteCategory;
+  /** Plain-text description */
+  text: string;
+  /** Optional markdown version of the description */
+  markdown?: string;
+}
+
+/**
+ * Release notes content in a single language
+ */
+export interface ReleaseNotesContent {
+  title?: string;
+  /** Optional free-form markdown body */
+  markdown?: string;
+  entries: ReleaseNoteEntry[];
+}
+
+/**
+ * Structured release notes for a version
+ * Top-level content is in `locale`; `localizations` holds translations keyed by BCP 47 tag
+ */
+export interface ReleaseNotes extends ReleaseNotesContent {
+  version: string;
+  /** Locale of the top-level content (default: "en") */
+  locale?: string;
+  localizations?: Record<string, ReleaseNotesContent>;
+}
+
+/**
+ * Release notes resolved to a single locale
+ */
+export interface LocalizedReleaseNotes extends ReleaseNotesContent {
+  version: string;
+  locale: string;
+}
+
+/**
+ * Reported once the app starts on a newer version than the one last seen
+ */
+export interface UpgradeEvent {
+  /** Version the user was on before updating */
+  from: string;
+  /** Version now installed */
+  to: string;
+}
+
+/** Window in device local time during which prompts are held, e.g. 22:00–07:00 */
+export interface QuietHours {
+  /** Start time, "HH:MM" */
+  start: string;
+  /** End time, "HH:MM"; earlier than start for windows past midnight */
+  end: string;
+}
+
+/** At most `maxPrompts` prompts within any `period` milliseconds */
+export interface FrequencyCap {
+  maxPrompts: number;
+  period: number;
+}
+
+/** Checker settings a data provider can override at runtime */
+export interface RemoteOptions {
+  /** Global kill switch; false suppresses every prompt, including required updates */
+  enabled?: boolean;
+  /** Overrides `minCheckInterval` */
+  minCheckInterval?: number;
+  /** Overrides `remindLaterDuration` */
+  remindLaterDuration?: number;
+  /** Overrides `skipWebPlatform` */
+  skipWebPlatform?: boolean;
+}
+
+export interface VersionFetchOptions {
+  /** Bypass cached provider results and fetch fresh data */
+  forceRefresh?: boolean;
 }
 
 export interface VersionCheckTimestamps {
@@ -37,6 +275,20 @@ export interface AppStoreConfig {
   iosStoreUrl?: string;
   /** Custom Android Play Store URL */
   androidStoreUrl?: string;
+  /** Mac App Store ID */
+  macAppStoreId?: string;
+  /** Custom Mac App Store URL */
+  macStoreUrl?: string;
+  /** Microsoft Store product ID (e.g. 9NBLGGH4NNS1) */
+  windowsStoreId?: string;
+  /** Custom Microsoft Store URL */
+  windowsStoreUrl?: string;
+  /** Snap Store package name */
+  snapName?: string;
+  /** Custom Linux store URL */
+  linuxStoreUrl?: string;
+  /** Download page for desktop builds outside a store (used for Electron) */
+  desktopDownloadUrl?: string;
 }
 
 export interface VersionCheckResult {
@@ -44,12 +296,74 @@ export interface VersionCheckResult {
   shouldShowPrompt: boolean;
   /** Version information */
   versionInfo: VersionInfo;
+  /** Kind of update, set when an update is available */
+  updateType?: UpdateType;
   /** Reason for not showing prompt (if applicable) */
-  skipReason?: 'no_update' | 'web_platform' | 'remind_later' | 'too_soon' | 'error';
+  skipReason?:
+    | 'no_update'
+    | 'web_platform'
+    | 'remind_later'
+    | 'too_soon'
+    | 'version_skipped'
+    | 'offline'
+    | 'not_in_rollout'
+    | 'invalid_version'
+    | 'disabled'
+    | 'frequency_capped'
+    | 'deferred'
+    | 'policy'
+    | 'error';
+  /** Set when a due prompt is held until this time or until the app is idle */
+  deferredUntil?: number | 'idle';
+  /** Record of how the outcome was decided */
+  trace?: DecisionTrace;
+}
+
+/** Value recorded in a decision trace (JSON-serializable) */
+export type TraceValue = string | number | boolean | null;
+
+/** Outcome of a single prompt rule */
+export type TraceOutcome = 'passed' | 'blocked' | 'bypassed';
+
+/** One rule evaluated while deciding whether to show the prompt */
+export interface DecisionTraceStep {
+  /** Rule name, usually the skip reason it can produce */
+  rule: string;
+  /** 'blocked' means this rule decided the outcome */
+  outcome: TraceOutcome;
+  /** Storage values and provider results the rule looked at */
+  values: Record<string, TraceValue>;
+}
+
+/** Serializable explanation of an update prompt decision */
+export interface DecisionTrace {
+  platform: Platform;
+  /** Clock time the check started */
+  checkedAt: number;
+  /** Rules in evaluation order */
+  steps: DecisionTraceStep[];
+  /** Rule that decided the outcome, or 'show' when the prompt was shown */
+  decidedBy: string;
+  /** Error that aborted the check, if any */
+  error?: {
+    name: string;
+    message: string;
+  };
 }
 
 /** Version check intervals (in milliseconds) */
 export const DEFAULT_CHECK_INTERVALS = {
   MIN_CHECK_INTERVAL: 60 * 60 * 1000, // 1 hour minimum between checks
   REMIND_LATER_DURATION: 24 * 60 * 60 * 1000, // 24 hours for "remind me later"
-} as const;
\ No newline at end of file
+  CACHE_TTL: 5 * 60 * 1000, // 5 minutes for cached provider results
+  REQUEST_TIMEOUT: 10 * 1000, // 10 seconds per provider call
+} as const;
+
+/** Default retry policy for provider calls */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 5000,
+  jitter: true,
+  shouldRetry: isTransientError,
+};
\ No newline at end of file
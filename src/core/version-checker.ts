@@ -8,18 +8,70 @@ import {
   VersionInfo,
   VersionCheckOptions,
   VersionCheckResult,
+  DecisionTrace,
+  VersionScheme,
+  UpdateType,
+  UpgradeEvent,
+  VersionFetchOptions,
+  RemoteOptions,
+  ReleaseChannel,
+  VersionRelease,
+  LocalizedReleaseNotes,
+  Clock,
+  TimerHandle,
+  RetryOptions,
   DEFAULT_CHECK_INTERVALS,
 } from './types';
-import { isUpdateAvailable } from './version-compare';
+import { getVersionDiff } from './version-compare';
+import {
+  detectDeviceLocales,
+  formatReleaseNotes,
+  localizeReleaseNotes,
+  releaseNotesFromText,
+} from './release-notes';
+import { semverScheme, resolveVersionScheme, validateWithScheme } from './version-scheme';
 import { getStoreUrl } from './stores';
+import { detectPlatform } from './platform';
+import { generateDeviceId, isInRollout } from './rollout';
+import { TtlCache } from './cache';
+import { DecisionTraceRecorder } from './decision-trace';
+import { parseTimeOfDay, waitForIdle } from './schedule';
+import {
+  DEFAULT_PROMPT_POLICIES,
+  PromptPolicy,
+  PromptPolicyContext,
+  isNewerThanLastShown,
+} from './prompt-policy';
+import { systemClock } from './clock';
+import { resolveRetryOptions, retryWithBackoff, withTimeout } from './retry';
+import {
+  TypedEventEmitter,
+  VersionCheckerEventMap,
+  VersionCheckerEventName,
+  VersionCheckerEventListener,
+} from './events';
 import { IVersionDataProvider } from '../providers/data-provider.interface';
 import { IStorageProvider } from '../providers/storage-provider.interface';
 
 export class VersionChecker {
   private dataProvider: IVersionDataProvider;
   private storageProvider: IStorageProvider;
-  private options: Required<VersionCheckOptions>;
+  private options: Required<VersionCheckOptions> & { retry: Required<RetryOptions> };
   private initialized: boolean = false;
+  private sessionDeviceId: string | null = null;
+  private sessionDeviceIdSaved: boolean = false;
+  private sessionChannels: ReleaseChannel[] | null = null;
+  private sessionImpressions: number[] = [];
+  private sessionStartedAt: number;
+  private heldPromptTimer: TimerHandle | null = null;
+  private heldPromptToken = 0;
+  private events = new TypedEventEmitter<VersionCheckerEventMap>();
+  private cache: TtlCache;
+  private online: boolean;
+  private removeConnectivityListeners: (() => void) | null = null;
+  private reportedErrors: WeakSet<object> = new WeakSet();
+  private upgradeDetection: Promise<UpgradeEvent | null> | null = null;
+  private promptPolicies: readonly PromptPolicy[];
 
   constructor(
     dataProvider: IVersionDataProvider,
@@ -35,7 +87,41 @@ export class VersionChecker {
       remindLaterDuration: options.remindLaterDuration ?? DEFAULT_CHECK_INTERVALS.REMIND_LATER_DURATION,
       skipWebPlatform: options.skipWebPlatform ?? true,
       getPlatform: options.getPlatform ?? (() => this.detectPlatform()),
+      versionScheme: options.versionScheme ?? semverScheme,
+      getUserId: options.getUserId ?? (() => null),
+      remindLaterSchedule: options.remindLaterSchedule ?? [],
+      cacheTtl: options.cacheTtl ?? DEFAULT_CHECK_INTERVALS.CACHE_TTL,
+      requestTimeout: options.requestTimeout ?? DEFAULT_CHECK_INTERVALS.REQUEST_TIMEOUT,
+      retry: resolveRetryOptions(options.retry),
+      getLocale: options.getLocale ?? detectDeviceLocales,
+      clock: options.clock ?? systemClock,
+      frequencyCaps: options.frequencyCaps ?? [],
+      maxPromptsPerSession: options.maxPromptsPerSession ?? Infinity,
+      releaseChannels: options.releaseChannels ?? ['stable'],
+      quietHours: options.quietHours ?? [],
+      minSessionAge: options.minSessionAge ?? 0,
+      deferUntilIdle: options.deferUntilIdle ?? false,
+      promptPolicies: options.promptPolicies ?? DEFAULT_PROMPT_POLICIES,
     };
+
+    const { promptPolicies } = this.options;
+    this.promptPolicies =
+      typeof promptPolicies === 'function' ? promptPolicies(DEFAULT_PROMPT_POLICIES) : promptPolicies;
+
+    this.cache = new TtlCache(this.options.cacheTtl, this.options.clock);
+    this.sessionStartedAt = this.options.clock.now();
+
+    // Fail fast on malformed quiet hours rather than on every check
+    for (const { start, end } of this.options.quietHours) {
+      parseTimeOfDay(start);
+      parseTimeOfDay(end);
+    }
+
+    // React Native exposes navigator without onLine, so only trust a real boolean
+    this.online =
+      typeof navigator !== 'undefined' && typeof navigator.onLine === 'boolean'
+        ? navigator.onLine
+        : true;
   }
 
   /**
@@ -55,7 +141,139 @@ export class VersionChecker {
       await this.storageProvider.initialize();
     }
 
+    // Track browser connectivity; other environments call setOnline()
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      const handleOnline = () => this.setOnline(true);
+      const handleOffline = () => this.setOnline(false);
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+
+      this.removeConnectivityListeners = () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+      };
+    }
+
     this.initialized = true;
+
+    try {
+      await this.detectUpgrade();
+    } catch (error) {
+      console.error('Error detecting app upgrade:', error);
+    }
+  }
+
+  /**
+   * Detect whether the app was updated since the last seen version
+   * The first run only records the current version. The result stays pending
+   * until markUpgradeSeen() is called, so it is reported on every startup until then.
+   * Also clears remind-later and skip state the update made stale.
+   */
+  async detectUpgrade(): Promise<UpgradeEvent | null> {
+    if (!this.upgradeDetection) {
+      this.upgradeDetection = this.runUpgradeDetection().catch(error => {
+        this.upgradeDetection = null;
+        throw error;
+      });
+    }
+    return this.upgradeDetection;
+  }
+
+  private async runUpgradeDetection(): Promise<UpgradeEvent | null> {
+    if (!this.storageProvider.getLastSeenVersion || !this.storageProvider.setLastSeenVersion) {
+      return null;
+    }
+
+    const currentVersion = await this.dataProvider.getCurrentVersion();
+    const lastSeenVersion = await this.storageProvider.getLastSeenVersion();
+    const scheme = this.getVersionScheme();
+
+    if (
+      !lastSeenVersion ||
+      validateWithScheme(scheme, currentVersion) ||
+      validateWithScheme(scheme, lastSeenVersion) ||
+      scheme.compare(currentVersion, lastSeenVersion) <= 0
+    ) {
+      // First run, downgrade, or nothing comparable: just remember where we are
+      if (lastSeenVersion !== currentVersion) {
+        await this.storageProvider.setLastSeenVersion(currentVersion);
+      }
+      return null;
+    }
+
+    await this.clearStaleDismissals(currentVersion);
+
+    const upgrade: UpgradeEvent = { from: lastSeenVersion, to: currentVersion };
+    this.events.emit('upgradeDetected', { upgrade });
+    return upgrade;
+  }
+
+  /**
+   * Clear remind-later and skip state for versions the user has now reached
+   */
+  private async clearStaleDismissals(currentVersion: string): Promise<void> {
+    const scheme = this.getVersionScheme();
+    const reached = (version: string | null): boolean =>
+      !!version && !validateWithScheme(scheme, version) && scheme.compare(currentVersion, version) >= 0;
+
+    if (this.storageProvider.getSkippedVersion && this.storageProvider.clearSkippedVersion) {
+      const skippedVersion = await this.storageProvider.getSkippedVersion();
+      if (reached(skippedVersion)) {
+        await this.storageProvider.clearSkippedVersion();
+      }
+    }
+
+    if (this.storageProvider.getLastShownVersion) {
+      const lastShownVersion = await this.storageProvider.getLastShownVersion();
+      if (reached(lastShownVersion)) {
+        await this.storageProvider.clearRemindLaterTime();
+        if (this.storageProvider.resetDismissCount) {
+          await this.storageProvider.resetDismissCount();
+        }
+      }
+    }
+  }
+
+  /**
+   * Acknowledge the detected upgrade ("What's New" was shown)
+   */
+  async markUpgradeSeen(): Promise<void> {
+    if (!this.storageProvider.setLastSeenVersion) {
+      return;
+    }
+
+    const currentVersion = await this.dataProvider.getCurrentVersion();
+    await this.storageProvider.setLastSeenVersion(currentVersion);
+    this.upgradeDetection = Promise.resolve(null);
+  }
+
+  /**
+   * Get the changelog for the versions installed by an upgrade
+   * Merges every release in (from, to] when the provider has a version history
+   */
+  async getUpgradeChangeLog(upgrade: UpgradeEvent): Promise<string | null> {
+    if (this.dataProvider.getVersionHistory) {
+      const releases = await this.getReleasesBetween(upgrade.from, upgrade.to);
+      return this.mergeReleaseNotes(releases);
+    }
+
+    return await this.loadChangeLog(upgrade.to);
+  }
+
+  /**
+   * Update the connectivity state
+   * While offline, update checks are skipped with `skipReason: 'offline'`
+   * (e.g. wire this to NetInfo in React Native)
+   */
+  setOnline(online: boolean): void {
+    this.online = online;
+  }
+
+  /**
+   * Whether the checker currently considers the device online
+   */
+  isOnline(): boolean {
+    return this.online;
   }
 
   /**
@@ -67,23 +285,42 @@ export class VersionChecker {
       return this.dataProvider.getCurrentPlatform();
     }
 
-    // Basic platform detection
-    if (typeof window !== 'undefined') {
-      const userAgent = window.navigator?.userAgent || '';
+    return detectPlatform();
+  }
 
-      if (/android/i.test(userAgent)) {
-        return 'android';
-      }
+  /**
+   * Subscribe to a lifecycle event
+   * @returns A function that removes the listener
+   */
+  on<K extends VersionCheckerEventName>(
+    event: K,
+    listener: VersionCheckerEventListener<K>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
 
-      if (/iPad|iPhone|iPod/.test(userAgent)) {
-        return 'ios';
-      }
+  /**
+   * Subscribe to the next occurrence of a lifecycle event
+   */
+  once<K extends VersionCheckerEventName>(
+    event: K,
+    listener: VersionCheckerEventListener<K>
+  ): () => void {
+    return this.events.once(event, listener);
+  }
 
-      return 'web';
-    }
+  /**
+   * Remove a lifecycle event listener
+   */
+  off<K extends VersionCheckerEventName>(event: K, listener: VersionCheckerEventListener<K>): void {
+    this.events.off(event, listener);
+  }
 
-    // Default to web if we can't determine
-    return 'web';
+  /**
+   * Get the clock used for time reads and timers
+   */
+  getClock(): Clock {
+    return this.options.clock;
   }
 
   /**
@@ -93,149 +330,768 @@ export class VersionChecker {
     return this.options.getPlatform();
   }
 
+  /**
+   * Get the version scheme used for a platform (defaults to the current platform)
+   */
+  getVersionScheme(platform: Platform = this.getPlatform()): VersionScheme {
+    return resolveVersionScheme(this.options.versionScheme, platform);
+  }
+
+  /**
+   * Clear cached provider results so the next check fetches fresh data
+   */
+  invalidate(): void {
+    this.cache.invalidate();
+  }
+
   /**
    * Get version information
+   * Provider results are cached for `cacheTtl` and concurrent calls share one request
    */
-  async getVersionInfo(): Promise<VersionInfo> {
+  async getVersionInfo(options: VersionFetchOptions = {}): Promise<VersionInfo> {
+    return this.loadVersionInfo(options, false);
+  }
+
+  /**
+   * Load version information; a dry run reports no provider errors
+   */
+  private async loadVersionInfo(options: VersionFetchOptions, dryRun: boolean): Promise<VersionInfo> {
     const platform = this.getPlatform();
+    const forceRefresh = options.forceRefresh ?? false;
+    const { getMinimumSupportedVersion } = this.dataProvider;
+
+    const scheme = this.getVersionScheme(platform);
     const currentVersion = await this.dataProvider.getCurrentVersion();
-    const latestVersion = await this.dataProvider.getLatestVersion(platform);
-    const appStoreConfig = await this.dataProvider.getAppStoreConfig();
+    const channels = await this.getReleaseChannels();
+    const candidates = await Promise.all(
+      channels.map(async channel => ({
+        channel,
+        version: await this.cache.get(
+          `latestVersion:${platform}:${channel}`,
+          () =>
+            this.callProvider(
+              'getLatestVersion',
+              () => this.dataProvider.getLatestVersion(platform, channel),
+              dryRun
+            ),
+          forceRefresh
+        ),
+      }))
+    );
+    const { version: latestVersion, channel: latestChannel } = this.resolveLatestVersion(
+      scheme,
+      candidates
+    );
+    const appStoreConfig = await this.cache.get(
+      'appStoreConfig',
+      () =>
+        this.callProvider('getAppStoreConfig', () => this.dataProvider.getAppStoreConfig(), dryRun),
+      forceRefresh
+    );
+    const minimumSupportedVersion = getMinimumSupportedVersion
+      ? await this.cache.get(
+          `minimumSupportedVersion:${platform}`,
+          () =>
+            this.callProvider(
+              'getMinimumSupportedVersion',
+              () => getMinimumSupportedVersion.call(this.dataProvider, platform),
+              dryRun
+            ),
+          forceRefresh
+        )
+      : null;
+    const storeUrl = getStoreUrl(platform, appStoreConfig);
+
+    const baseInfo = {
+      currentVersion,
+      latestVersion,
+      latestChannel,
+      storeUrl,
+      platform,
+      minimumSupportedVersion,
+    };
+
+    // Report malformed versions instead of comparing them
+    const currentError = validateWithScheme(scheme, currentVersion);
+    const latestError = latestVersion ? validateWithScheme(scheme, latestVersion) : null;
+    const minimumError = minimumSupportedVersion
+      ? validateWithScheme(scheme, minimumSupportedVersion)
+      : null;
+    if (currentError || latestError || minimumError) {
+      return {
+        ...baseInfo,
+        updateAvailable: false,
+        invalidVersion: currentError
+          ? { source: 'current', error: currentError }
+          : latestError
+            ? { source: 'latest', error: latestError }
+            : { source: 'minimum', error: minimumError! },
+      };
+    }
 
-    const updateAvailable = latestVersion
-      ? isUpdateAvailable(currentVersion, latestVersion)
+    const belowMinimum = minimumSupportedVersion
+      ? scheme.compare(currentVersion, minimumSupportedVersion) < 0
       : false;
 
-    const storeUrl = getStoreUrl(platform, appStoreConfig);
+    // Running below the minimum supported version always means an update is due
+    const updateAvailable =
+      belowMinimum || (latestVersion ? scheme.compare(currentVersion, latestVersion) < 0 : false);
 
-    return {
+    if (!updateAvailable) {
+      return { ...baseInfo, updateAvailable };
+    }
+
+    const updateType = await this.getUpdateType(
+      scheme,
+      platform,
       currentVersion,
       latestVersion,
-      updateAvailable,
-      storeUrl,
+      belowMinimum,
+      dryRun
+    );
+
+    return { ...baseInfo, updateAvailable, updateType };
+  }
+
+  /**
+   * Call a data provider method with the configured timeout and retry policy
+   * Final failures are reported through the providerError event (except on dry runs) and rethrown
+   */
+  private async callProvider<T>(
+    operation: string,
+    call: () => Promise<T> | T,
+    dryRun: boolean = false
+  ): Promise<T> {
+    try {
+      const { clock } = this.options;
+      return await retryWithBackoff(
+        () => withTimeout(call, this.options.requestTimeout, operation, clock),
+        this.options.retry,
+        clock
+      );
+    } catch (error) {
+      if (!dryRun) {
+        this.reportProviderError(error, operation);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Emit a providerError event once per error
+   */
+  private reportProviderError(error: unknown, operation: string): void {
+    if (typeof error === 'object' && error !== null) {
+      if (this.reportedErrors.has(error)) {
+        return;
+      }
+      this.reportedErrors.add(error);
+    }
+
+    this.events.emit('providerError', { error, operation });
+  }
+
+  /**
+   * Build version information without calling remote providers
+   * Used when offline or after a provider failure
+   */
+  private async getFallbackVersionInfo(platform: Platform): Promise<VersionInfo> {
+    let currentVersion = '';
+    try {
+      currentVersion = await this.dataProvider.getCurrentVersion();
+    } catch (error) {
+      console.error('Error reading current version:', error);
+    }
+
+    return {
+      currentVersion,
+      latestVersion: null,
+      updateAvailable: false,
+      storeUrl: null,
       platform,
     };
   }
 
+  /**
+   * Classify an available update
+   */
+  private async getUpdateType(
+    scheme: VersionScheme,
+    platform: Platform,
+    currentVersion: string,
+    latestVersion: string | null,
+    belowMinimum: boolean,
+    dryRun: boolean
+  ): Promise<UpdateType> {
+    if (belowMinimum || !latestVersion) {
+      return 'required';
+    }
+
+    const { isUpdateMandatory } = this.dataProvider;
+    if (isUpdateMandatory) {
+      const isMandatory = await this.callProvider(
+        'isUpdateMandatory',
+        () => isUpdateMandatory.call(this.dataProvider, currentVersion, latestVersion, platform),
+        dryRun
+      );
+      if (isMandatory) {
+        return 'required';
+      }
+    }
+
+    // Only the semver scheme knows which segment changed
+    if (scheme !== semverScheme) {
+      return 'recommended';
+    }
+
+    const { type } = getVersionDiff(currentVersion, latestVersion);
+    return type === 'major' || type === 'minor' ? 'recommended' : 'optional';
+  }
+
+  /**
+   * Pick the newest valid version across the followed channels
+   */
+  private resolveLatestVersion(
+    scheme: VersionScheme,
+    candidates: Array<{ channel: ReleaseChannel; version: string | null }>
+  ): { version: string | null; channel?: ReleaseChannel } {
+    let latest: { version: string; channel: ReleaseChannel } | null = null;
+    for (const { channel, version } of candidates) {
+      if (!version || validateWithScheme(scheme, version)) {
+        continue;
+      }
+      if (!latest || scheme.compare(version, latest.version) > 0) {
+        latest = { version, channel };
+      }
+    }
+
+    if (latest) {
+      return latest;
+    }
+
+    // Nothing valid: report the stable result so a malformed version surfaces as invalidVersion
+    const [stable] = candidates;
+    return stable?.version ? stable : { version: null };
+  }
+
+  /**
+   * Get the release channels the user follows
+   * 'stable' is always included; stored choices win over the `releaseChannels` option
+   */
+  async getReleaseChannels(): Promise<ReleaseChannel[]> {
+    let channels = this.sessionChannels ?? this.options.releaseChannels;
+    if (this.storageProvider.getReleaseChannels) {
+      channels = (await this.storageProvider.getReleaseChannels()) ?? channels;
+    }
+
+    return Array.from(new Set<ReleaseChannel>(['stable', ...channels]));
+  }
+
+  /**
+   * Switch the release channels the user follows
+   * Persisted through storage when supported, otherwise kept for this session
+   */
+  async setReleaseChannels(channels: ReleaseChannel[]): Promise<void> {
+    this.sessionChannels = [...channels];
+    if (this.storageProvider.setReleaseChannels) {
+      await this.storageProvider.setReleaseChannels(channels);
+    }
+
+    this.events.emit('releaseChannelsChanged', { channels: await this.getReleaseChannels() });
+  }
+
+  /**
+   * Opt into a release channel
+   */
+  async joinReleaseChannel(channel: ReleaseChannel): Promise<void> {
+    const channels = await this.getReleaseChannels();
+    if (!channels.includes(channel)) {
+      await this.setReleaseChannels([...channels, channel]);
+    }
+  }
+
+  /**
+   * Opt out of a release channel ('stable' cannot be left)
+   */
+  async leaveReleaseChannel(channel: ReleaseChannel): Promise<void> {
+    const channels = await this.getReleaseChannels();
+    if (channel !== 'stable' && channels.includes(channel)) {
+      await this.setReleaseChannels(channels.filter(c => c !== channel));
+    }
+  }
+
+  /**
+   * Get the options in effect, with the provider's remote overrides applied
+   * Falls back to the local options when the provider fails
+   */
+  async getEffectiveOptions(options: VersionFetchOptions = {}): Promise<Required<RemoteOptions>> {
+    return this.loadEffectiveOptions(options, false);
+  }
+
+  /**
+   * Load the options in effect; a dry run reports no provider errors
+   */
+  private async loadEffectiveOptions(
+    options: VersionFetchOptions,
+    dryRun: boolean
+  ): Promise<Required<RemoteOptions>> {
+    const local: Required<RemoteOptions> = {
+      enabled: true,
+      minCheckInterval: this.options.minCheckInterval,
+      remindLaterDuration: this.options.remindLaterDuration,
+      skipWebPlatform: this.options.skipWebPlatform,
+    };
+
+    const { getRemoteOptions } = this.dataProvider;
+    if (!getRemoteOptions) {
+      return local;
+    }
+
+    const platform = this.getPlatform();
+    let remote: RemoteOptions | null;
+    try {
+      remote = await this.cache.get(
+        `remoteOptions:${platform}`,
+        () =>
+          this.callProvider(
+            'getRemoteOptions',
+            () => getRemoteOptions.call(this.dataProvider, platform),
+            dryRun
+          ),
+        options.forceRefresh ?? false
+      );
+    } catch (error) {
+      console.error('Error fetching remote options:', error);
+      return local;
+    }
+
+    // Ignore malformed values instead of trusting the backend blindly
+    const isDuration = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    return {
+      enabled: typeof remote?.enabled === 'boolean' ? remote.enabled : local.enabled,
+      minCheckInterval: isDuration(remote?.minCheckInterval)
+        ? remote.minCheckInterval
+        : local.minCheckInterval,
+      remindLaterDuration: isDuration(remote?.remindLaterDuration)
+        ? remote.remindLaterDuration
+        : local.remindLaterDuration,
+      skipWebPlatform:
+        typeof remote?.skipWebPlatform === 'boolean' ? remote.skipWebPlatform : local.skipWebPlatform,
+    };
+  }
+
   /**
    * Check if an update is available
    */
-  async isUpdateAvailable(): Promise<boolean> {
+  async isUpdateAvailable(options: VersionFetchOptions = {}): Promise<boolean> {
     const platform = this.getPlatform();
 
     // Skip check for web platform if configured
-    if (platform === 'web' && this.options.skipWebPlatform) {
+    if (platform === 'web' && (await this.getEffectiveOptions(options)).skipWebPlatform) {
       return false;
     }
 
-    const versionInfo = await this.getVersionInfo();
+    const versionInfo = await this.getVersionInfo(options);
     return versionInfo.updateAvailable;
   }
 
   /**
    * Check if we should show the update prompt
+   * A due prompt held back by scheduling rules is emitted later through `promptReady`
    */
-  async shouldShowUpdatePrompt(): Promise<VersionCheckResult> {
+  async shouldShowUpdatePrompt(options: VersionFetchOptions = {}): Promise<VersionCheckResult> {
+    return this.checkUpdatePrompt(options, false);
+  }
+
+  /**
+   * Run a prompt check, emit its events and hold a deferred prompt
+   */
+  private async checkUpdatePrompt(
+    options: VersionFetchOptions,
+    idle: boolean
+  ): Promise<VersionCheckResult> {
     const platform = this.getPlatform();
+    this.events.emit('checkStarted', { platform });
+
+    const result = await this.runUpdateCheck(platform, options, false, idle);
 
-    // Skip for web platform if configured
-    if (platform === 'web' && this.options.skipWebPlatform) {
-      const versionInfo = await this.getVersionInfo();
+    // The latest check supersedes any prompt held by an earlier one
+    this.releaseHeldPrompt();
+    if (result.deferredUntil !== undefined) {
+      this.holdPrompt(result.deferredUntil);
+    }
+
+    this.events.emit('checkCompleted', { result });
+    if (result.skipReason && result.skipReason !== 'no_update') {
+      this.events.emit('promptSuppressed', { reason: result.skipReason, result });
+    }
+    if (result.deferredUntil !== undefined) {
+      this.events.emit('promptDeferred', { until: result.deferredUntil, result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-check once the deferral ends and emit `promptReady` if the prompt is still due
+   */
+  private holdPrompt(until: number | 'idle'): void {
+    const token = ++this.heldPromptToken;
+    const recheck = async (idle: boolean) => {
+      if (token !== this.heldPromptToken) {
+        return;
+      }
+
+      this.heldPromptTimer = null;
+      const result = await this.checkUpdatePrompt({}, idle);
+      if (result.shouldShowPrompt) {
+        this.events.emit('promptReady', { result });
+      }
+    };
+
+    if (until === 'idle') {
+      this.waitForIdle()
+        .then(() => recheck(true))
+        .catch(error => console.error('Error waiting for idle:', error));
+      return;
+    }
+
+    const { clock } = this.options;
+    this.heldPromptTimer = clock.setTimeout(() => {
+      recheck(false).catch(error => console.error('Error releasing held prompt:', error));
+    }, Math.max(0, until - clock.now()));
+  }
+
+  /**
+   * Drop a held prompt without showing it
+   */
+  private releaseHeldPrompt(): void {
+    this.heldPromptToken++;
+    if (this.heldPromptTimer !== null) {
+      this.options.clock.clearTimeout(this.heldPromptTimer);
+      this.heldPromptTimer = null;
+    }
+  }
+
+  /**
+   * Wait until the app is idle, using the `deferUntilIdle` hook when provided
+   */
+  private waitForIdle(): Promise<void> {
+    const { deferUntilIdle, clock } = this.options;
+    return typeof deferUntilIdle === 'function' ? deferUntilIdle() : waitForIdle(clock);
+  }
+
+  /**
+   * Explain whether the update prompt would be shown right now
+   * Runs the same rules as shouldShowUpdatePrompt without writing to storage or emitting events
+   */
+  async explain(options: VersionFetchOptions = {}): Promise<DecisionTrace> {
+    const result = await this.runUpdateCheck(this.getPlatform(), options, true);
+    return result.trace as DecisionTrace;
+  }
+
+  /**
+   * Evaluate the prompt rules and attach the decision trace
+   */
+  private async runUpdateCheck(
+    platform: Platform,
+    options: VersionFetchOptions,
+    dryRun: boolean,
+    idle: boolean = false
+  ): Promise<VersionCheckResult> {
+    const trace = new DecisionTraceRecorder(platform, this.options.clock.now());
+
+    let result: VersionCheckResult;
+    try {
+      result = await this.evaluateUpdatePrompt(platform, options, trace, dryRun, idle);
+    } catch (error) {
+      // Never let a failing provider crash or stall the caller
+      console.error('Error checking for updates:', error);
+      if (!dryRun) {
+        this.reportProviderError(error, 'shouldShowUpdatePrompt');
+      }
+      trace.fail(error);
+      result = {
+        shouldShowPrompt: false,
+        versionInfo: await this.getFallbackVersionInfo(platform),
+        skipReason: 'error',
+      };
+    }
+
+    return { ...result, trace: trace.toJSON() };
+  }
+
+  /**
+   * Run the prompt rules for a platform
+   */
+  private async evaluateUpdatePrompt(
+    platform: Platform,
+    options: VersionFetchOptions,
+    trace: DecisionTraceRecorder,
+    dryRun: boolean,
+    idle: boolean
+  ): Promise<VersionCheckResult> {
+    // Skip while offline until connectivity returns
+    if (!this.online) {
+      trace.record('offline', 'blocked', { online: false });
       return {
         shouldShowPrompt: false,
-        versionInfo,
-        skipReason: 'web_platform',
+        versionInfo: await this.getFallbackVersionInfo(platform),
+        skipReason: 'offline',
       };
     }
+    trace.record('offline', 'passed', { online: true });
 
-    try {
-      const versionInfo = await this.getVersionInfo();
+    // Remote kill switch beats every other rule, required updates included
+    const effectiveOptions = await this.loadEffectiveOptions(options, dryRun);
+    trace.record('disabled', effectiveOptions.enabled ? 'passed' : 'blocked', {
+      enabled: effectiveOptions.enabled,
+    });
+    if (!effectiveOptions.enabled) {
+      return {
+        shouldShowPrompt: false,
+        versionInfo: await this.getFallbackVersionInfo(platform),
+        skipReason: 'disabled',
+      };
+    }
 
-      // No update available
-      if (!versionInfo.updateAvailable) {
-        return {
-          shouldShowPrompt: false,
-          versionInfo,
-          skipReason: 'no_update',
-        };
-      }
+    const versionInfo = await this.loadVersionInfo(options, dryRun);
+    const { updateType } = versionInfo;
+    const scheme = this.getVersionScheme(platform);
 
-      // Check if we're in "remind me later" period
-      const remindLaterTime = await this.storageProvider.getRemindLaterTime();
-      if (remindLaterTime && Date.now() < remindLaterTime) {
-        return {
-          shouldShowPrompt: false,
-          versionInfo,
-          skipReason: 'remind_later',
-        };
+    if (!dryRun && versionInfo.updateAvailable) {
+      await this.resetRemindLaterForNewRelease(versionInfo, scheme);
+    }
+
+    const context: PromptPolicyContext = {
+      platform,
+      versionInfo,
+      updateType,
+      now: this.options.clock.now(),
+      options: effectiveOptions,
+      storage: this.storageProvider,
+      scheme,
+      isUserInRollout: version => this.checkRollout(version, platform, dryRun),
+      frequencyCaps: this.options.frequencyCaps,
+      maxPromptsPerSession: this.options.maxPromptsPerSession,
+      sessionPromptCount: this.sessionImpressions.length,
+      getPromptImpressions: () => this.getPromptImpressions(),
+      sessionStartedAt: this.sessionStartedAt,
+      minSessionAge: this.options.minSessionAge,
+      quietHours: this.options.quietHours,
+      deferUntilIdle: !!this.options.deferUntilIdle,
+      idle,
+    };
+
+    for (const policy of this.promptPolicies) {
+      // Required updates bypass every suppression rule unless it opts in
+      if (updateType === 'required' && !policy.appliesToRequired) {
+        trace.record(policy.name, 'bypassed', { updateType });
+        continue;
       }
 
-      // Check minimum interval between checks
-      const lastCheckTime = await this.storageProvider.getLastCheckTime();
-      if (lastCheckTime && Date.now() - lastCheckTime < this.options.minCheckInterval) {
+      const decision = await policy.evaluate(context);
+      trace.record(policy.name, decision.allow ? 'passed' : 'blocked', decision.values);
+      if (!decision.allow) {
         return {
           shouldShowPrompt: false,
           versionInfo,
-          skipReason: 'too_soon',
+          updateType,
+          skipReason: decision.skipReason ?? 'policy',
+          ...(decision.deferUntil !== undefined && { deferredUntil: decision.deferUntil }),
         };
       }
+    }
+
+    if (!dryRun) {
+      await this.recordPromptShown(versionInfo);
+    }
+
+    return {
+      shouldShowPrompt: true,
+      versionInfo,
+      updateType,
+    };
+  }
+
+  /**
+   * Drop the "remind me later" window and dismiss count built up for an older release
+   */
+  private async resetRemindLaterForNewRelease(versionInfo: VersionInfo, scheme: VersionScheme): Promise<void> {
+    if (!(await isNewerThanLastShown(this.storageProvider, versionInfo, scheme))) {
+      return;
+    }
+
+    if (await this.storageProvider.getRemindLaterTime()) {
+      await this.storageProvider.clearRemindLaterTime();
+    }
+
+    const { getDismissCount, resetDismissCount } = this.storageProvider;
+    if (getDismissCount && resetDismissCount && (await getDismissCount.call(this.storageProvider)) > 0) {
+      await resetDismissCount.call(this.storageProvider);
+    }
+  }
+
+  /**
+   * Persist that the prompt is being shown for the latest version
+   */
+  private async recordPromptShown(versionInfo: VersionInfo): Promise<void> {
+    const now = this.options.clock.now();
 
-      // Check if this version was already shown (optional)
-      if (this.storageProvider.getLastShownVersion) {
+    // Update last check time
+    await this.storageProvider.setLastCheckTime(now);
+    await this.recordPromptImpression(now);
+
+    // The reminder (if any) has fired
+    await this.storageProvider.clearRemindLaterTime();
+
+    if (versionInfo.latestVersion) {
+      // A new latest version restarts the reminder schedule
+      if (this.storageProvider.getLastShownVersion && this.storageProvider.resetDismissCount) {
         const lastShownVersion = await this.storageProvider.getLastShownVersion();
-        if (lastShownVersion === versionInfo.latestVersion) {
-          // Still check mandatory updates
-          if (this.dataProvider.isUpdateMandatory) {
-            const isMandatory = await this.dataProvider.isUpdateMandatory(
-              versionInfo.currentVersion,
-              versionInfo.latestVersion!
-            );
-            if (!isMandatory) {
-              return {
-                shouldShowPrompt: false,
-                versionInfo,
-                skipReason: 'remind_later',
-              };
-            }
-          } else {
-            return {
-              shouldShowPrompt: false,
-              versionInfo,
-              skipReason: 'remind_later',
-            };
-          }
+        if (lastShownVersion !== versionInfo.latestVersion) {
+          await this.storageProvider.resetDismissCount();
         }
       }
 
-      // Update last check time
-      await this.storageProvider.setLastCheckTime(Date.now());
-
       // Record shown version if supported
-      if (this.storageProvider.setLastShownVersion && versionInfo.latestVersion) {
+      if (this.storageProvider.setLastShownVersion) {
         await this.storageProvider.setLastShownVersion(versionInfo.latestVersion);
       }
+    }
+  }
 
-      return {
-        shouldShowPrompt: true,
-        versionInfo,
-      };
-    } catch (error) {
-      console.error('Error checking for updates:', error);
-      const versionInfo = await this.getVersionInfo();
-      return {
-        shouldShowPrompt: false,
-        versionInfo,
-        skipReason: 'error',
-      };
+  /**
+   * Get timestamps of recent prompts
+   * Falls back to this session's prompts when storage has no impression history
+   */
+  private async getPromptImpressions(): Promise<number[]> {
+    if (this.storageProvider.getPromptImpressions) {
+      return await this.storageProvider.getPromptImpressions();
     }
+
+    return this.sessionImpressions;
+  }
+
+  /**
+   * Record a prompt impression, dropping entries older than the longest cap period
+   */
+  private async recordPromptImpression(now: number): Promise<void> {
+    this.sessionImpressions.push(now);
+
+    const { getPromptImpressions, setPromptImpressions } = this.storageProvider;
+    if (!getPromptImpressions || !setPromptImpressions) {
+      return;
+    }
+
+    const longestPeriod = Math.max(0, ...this.options.frequencyCaps.map(cap => cap.period));
+    const impressions = await getPromptImpressions.call(this.storageProvider);
+    await setPromptImpressions.call(this.storageProvider, [
+      ...impressions.filter(timestamp => now - timestamp < longestPeriod),
+      now,
+    ]);
+  }
+
+  /**
+   * Check if the user is part of the staged rollout for a version
+   */
+  async isUserInRollout(version: string, platform: Platform = this.getPlatform()): Promise<boolean> {
+    return this.checkRollout(version, platform, false);
+  }
+
+  /**
+   * Check rollout membership; a dry run reports no provider errors and persists no device id
+   */
+  private async checkRollout(version: string, platform: Platform, dryRun: boolean): Promise<boolean> {
+    const { isVersionAvailableForUser, getRolloutPercentage } = this.dataProvider;
+
+    if (isVersionAvailableForUser) {
+      const available = await this.callProvider(
+        'isVersionAvailableForUser',
+        () => isVersionAvailableForUser.call(this.dataProvider, version, platform),
+        dryRun
+      );
+      if (!available) {
+        return false;
+      }
+    }
+
+    if (!getRolloutPercentage) {
+      return true;
+    }
+
+    const percentage = await this.callProvider(
+      'getRolloutPercentage',
+      () => getRolloutPercentage.call(this.dataProvider, version, platform),
+      dryRun
+    );
+    if (percentage === null || percentage === undefined) {
+      return true;
+    }
+
+    const rolloutId = await this.getRolloutId(dryRun);
+    return isInRollout(rolloutId, version, percentage);
+  }
+
+  /**
+   * Get the stable id used for rollout bucketing
+   * Prefers the configured user id, then a device id persisted through storage
+   * A dry run keeps a new device id in memory; the next real check persists it
+   */
+  private async getRolloutId(dryRun: boolean): Promise<string> {
+    const userId = await this.options.getUserId();
+    if (userId) {
+      return userId;
+    }
+
+    if (this.storageProvider.getDeviceId) {
+      const deviceId = await this.storageProvider.getDeviceId();
+      if (deviceId) {
+        return deviceId;
+      }
+    }
+
+    // Without storage support the id only lasts for this session
+    if (!this.sessionDeviceId) {
+      this.sessionDeviceId = generateDeviceId();
+    }
+
+    if (!dryRun && !this.sessionDeviceIdSaved && this.storageProvider.setDeviceId) {
+      await this.storageProvider.setDeviceId(this.sessionDeviceId);
+      this.sessionDeviceIdSaved = true;
+    }
+
+    return this.sessionDeviceId;
+  }
+
+  /**
+   * Get the next "remind me later" duration in milliseconds
+   * Picks the entry of `remindLaterSchedule` for the current dismiss count;
+   * the last entry caps the schedule
+   */
+  async getRemindLaterDuration(): Promise<number> {
+    const schedule = this.options.remindLaterSchedule;
+    if (schedule.length === 0) {
+      return (await this.getEffectiveOptions()).remindLaterDuration;
+    }
+
+    const dismissCount = this.storageProvider.getDismissCount
+      ? await this.storageProvider.getDismissCount()
+      : 0;
+
+    return schedule[Math.min(dismissCount, schedule.length - 1)];
   }
 
   /**
    * Set "remind me later" for the update prompt
+   * The duration escalates with the dismiss count when a schedule is configured
    */
   async setRemindMeLater(): Promise<void> {
-    const remindTime = Date.now() + this.options.remindLaterDuration;
+    const remindTime = this.options.clock.now() + (await this.getRemindLaterDuration());
     await this.storageProvider.setRemindLaterTime(remindTime);
+    this.events.emit('remindLaterSet', { until: remindTime });
 
     // Increment dismiss count if supported
     if (this.storageProvider.incrementDismissCount) {
@@ -243,6 +1099,29 @@ export class VersionChecker {
     }
   }
 
+  /**
+   * Skip a version: no prompt until a newer version ships, unless the update is required
+   * Requires storage provider support for skipped versions
+   */
+  async skipVersion(version: string): Promise<void> {
+    if (!this.storageProvider.setSkippedVersion) {
+      console.warn('Storage provider does not support skipping versions');
+      return;
+    }
+
+    await this.storageProvider.setSkippedVersion(version);
+    this.events.emit('versionSkipped', { version });
+  }
+
+  /**
+   * Clear a previously skipped version
+   */
+  async clearSkippedVersion(): Promise<void> {
+    if (this.storageProvider.clearSkippedVersion) {
+      await this.storageProvider.clearSkippedVersion();
+    }
+  }
+
   /**
    * Clear the "remind me later" setting
    */
@@ -252,37 +1131,153 @@ export class VersionChecker {
 
   /**
    * Check if update is mandatory
+   * True when the provider flags the update or the app is below the minimum supported version
    */
   async isUpdateMandatory(): Promise<boolean> {
-    if (!this.dataProvider.isUpdateMandatory) {
-      return false;
-    }
-
     const versionInfo = await this.getVersionInfo();
-    if (!versionInfo.latestVersion) {
-      return false;
-    }
-
-    return await this.dataProvider.isUpdateMandatory(
-      versionInfo.currentVersion,
-      versionInfo.latestVersion
-    );
+    return versionInfo.updateType === 'required';
   }
 
   /**
    * Get changelog for the latest version
    */
   async getChangeLog(): Promise<string | null> {
-    if (!this.dataProvider.getChangeLog) {
+    if (!this.dataProvider.getChangeLog && !this.dataProvider.getReleaseNotes) {
       return null;
     }
 
-    const versionInfo = await this.getVersionInfo();
-    if (!versionInfo.latestVersion) {
+    const { latestVersion } = await this.getVersionInfo();
+    if (!latestVersion) {
       return null;
     }
 
-    return await this.dataProvider.getChangeLog(versionInfo.latestVersion);
+    return await this.loadChangeLog(latestVersion);
+  }
+
+  /**
+   * Get structured release notes in the best matching locale
+   * Plain-text changelogs from getChangeLog() are converted when the provider
+   * has no structured notes
+   * @param version Version to get notes for (default: latest version)
+   * @param locale Preferred locale(s) (default: the getLocale option / device locales)
+   */
+  async getReleaseNotes(
+    version?: string,
+    locale?: string | string[]
+  ): Promise<LocalizedReleaseNotes | null> {
+    const targetVersion = version ?? (await this.getVersionInfo()).latestVersion;
+    if (!targetVersion) {
+      return null;
+    }
+
+    const preferredLocales = locale ?? this.options.getLocale();
+    const { getReleaseNotes, getChangeLog } = this.dataProvider;
+    const platform = this.getPlatform();
+
+    if (getReleaseNotes) {
+      const notes = await this.callProvider('getReleaseNotes', () =>
+        getReleaseNotes.call(this.dataProvider, targetVersion, platform)
+      );
+      if (notes) {
+        return localizeReleaseNotes(notes, preferredLocales);
+      }
+    }
+
+    if (getChangeLog) {
+      const text = await this.callProvider('getChangeLog', () =>
+        getChangeLog.call(this.dataProvider, targetVersion, platform)
+      );
+      if (text) {
+        return localizeReleaseNotes(releaseNotesFromText(targetVersion, text), preferredLocales);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Load a plain-text changelog for a version
+   * Prefers getChangeLog(), otherwise renders structured release notes
+   */
+  private async loadChangeLog(version: string): Promise<string | null> {
+    const { getChangeLog } = this.dataProvider;
+    if (getChangeLog) {
+      const platform = this.getPlatform();
+      return await this.callProvider('getChangeLog', () =>
+        getChangeLog.call(this.dataProvider, version, platform)
+      );
+    }
+
+    if (this.dataProvider.getReleaseNotes) {
+      const notes = await this.getReleaseNotes(version);
+      return notes ? formatReleaseNotes(notes) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get every release after the given version up to and including the latest version
+   * Newest first. Falls back to the latest version's changelog when the provider
+   * has no version history.
+   */
+  async getChangeLogSince(currentVersion: string): Promise<VersionRelease[]> {
+    const { latestVersion } = await this.getVersionInfo();
+
+    if (!this.dataProvider.getVersionHistory) {
+      if (!latestVersion || this.getVersionScheme().compare(currentVersion, latestVersion) >= 0) {
+        return [];
+      }
+      const notes = await this.getChangeLog();
+      return [{ version: latestVersion, notes }];
+    }
+
+    return this.getReleasesBetween(currentVersion, latestVersion);
+  }
+
+  /**
+   * Get releases in (from, to], newest first
+   * Without an upper bound every release newer than `from` is included
+   */
+  private async getReleasesBetween(from: string, to: string | null): Promise<VersionRelease[]> {
+    const { getVersionHistory } = this.dataProvider;
+    if (!getVersionHistory) {
+      return [];
+    }
+
+    const platform = this.getPlatform();
+    const scheme = this.getVersionScheme(platform);
+    const history = await this.cache.get(`versionHistory:${platform}`, () =>
+      this.callProvider('getVersionHistory', () => getVersionHistory.call(this.dataProvider, platform))
+    );
+
+    const releasesByVersion = new Map<string, VersionRelease>();
+    for (const release of history) {
+      if (validateWithScheme(scheme, release.version)) {
+        continue;
+      }
+      if (scheme.compare(release.version, from) <= 0) {
+        continue;
+      }
+      if (to && scheme.compare(release.version, to) > 0) {
+        continue;
+      }
+      releasesByVersion.set(release.version, release);
+    }
+
+    // Order with the same scheme that filtered, newest first
+    return [...releasesByVersion.values()].sort((a, b) => scheme.compare(b.version, a.version));
+  }
+
+  /**
+   * Merge release notes into a single changelog, newest first
+   */
+  private mergeReleaseNotes(releases: VersionRelease[]): string | null {
+    const sections = releases
+      .filter(release => release.notes)
+      .map(release => `${release.version}\n${release.notes}`);
+
+    return sections.length > 0 ? sections.join('\n\n') : null;
   }
 
   /**
@@ -295,6 +1290,10 @@ export class VersionChecker {
     if (this.storageProvider.clearAll) {
       await this.storageProvider.clearAll();
     }
+
+    this.cache.invalidate();
+    this.upgradeDetection = null;
+    this.events.emit('dataReset', undefined);
   }
 
   /**
@@ -310,8 +1309,15 @@ export class VersionChecker {
 
   /**
    * Dispose of resources
+   * Removes all event listeners
    */
   async dispose(): Promise<void> {
+    this.releaseHeldPrompt();
+    this.events.removeAllListeners();
+    this.cache.invalidate();
+    this.removeConnectivityListeners?.();
+    this.removeConnectivityListeners = null;
+
     if (this.dataProvider.dispose) {
       await this.dataProvider.dispose();
     }
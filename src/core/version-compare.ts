@@ -1,15 +1,157 @@
 /**
  * Core version comparison utilities
  * Pure functions with no external dependencies
+ *
+ * Follows SemVer 2.0 precedence rules, with two relaxations kept for
+ * mobile build numbers: a fourth numeric segment ("1.0.36.349") is
+ * compared as a revision, and missing segments are treated as 0.
  */
 
+import {
+  ParsedVersion,
+  PrereleaseIdentifier,
+  RangeComparator,
+  RangeOperator,
+  VersionDiffType,
+  VersionRange,
+} from './types';
+import { VersionParseError } from './errors';
+
+export interface VersionParseOptions {
+  /** Throw a VersionParseError instead of coercing malformed segments to 0 */
+  strict?: boolean;
+}
+
+/**
+ * Split a version string into its core, pre-release and build metadata parts
+ */
+function splitVersion(version: string): {
+  core: string;
+  prerelease: string | null;
+  build: string | null;
+} {
+  let rest = version.trim().replace(/^[vV=]/, '');
+
+  let build: string | null = null;
+  const plusIndex = rest.indexOf('+');
+  if (plusIndex !== -1) {
+    build = rest.slice(plusIndex + 1);
+    rest = rest.slice(0, plusIndex);
+  }
+
+  let prerelease: string | null = null;
+  const dashIndex = rest.indexOf('-');
+  if (dashIndex !== -1) {
+    prerelease = rest.slice(dashIndex + 1);
+    rest = rest.slice(0, dashIndex);
+  }
+
+  return { core: rest, prerelease, build };
+}
+
+/**
+ * Parse a dot-separated pre-release string into identifiers
+ * Purely numeric identifiers become numbers so they compare numerically
+ */
+function parsePrerelease(prerelease: string | null): PrereleaseIdentifier[] {
+  if (!prerelease) {
+    return [];
+  }
+
+  return prerelease
+    .split('.')
+    .map(id => (/^\d+$/.test(id) ? parseInt(id, 10) : id));
+}
+
+/**
+ * Validate every part of a split version, throwing on the first bad segment
+ * Accepts one to four numeric core segments
+ */
+function assertStrictVersion(
+  input: string,
+  { core, prerelease, build }: ReturnType<typeof splitVersion>
+): void {
+  const segments = core.split('.');
+  if (segments.length > 4) {
+    throw new VersionParseError(input, segments[4], 'too many numeric segments');
+  }
+
+  for (const segment of segments) {
+    if (!/^\d+$/.test(segment)) {
+      throw new VersionParseError(input, segment);
+    }
+  }
+
+  if (prerelease !== null) {
+    for (const id of prerelease.split('.')) {
+      if (!/^[0-9A-Za-z-]+$/.test(id)) {
+        throw new VersionParseError(input, id, `invalid pre-release identifier "${id}"`);
+      }
+    }
+  }
+
+  if (build !== null) {
+    for (const id of build.split('.')) {
+      if (!/^[0-9A-Za-z-]+$/.test(id)) {
+        throw new VersionParseError(input, id, `invalid build metadata "${id}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Compare two pre-release identifier lists using SemVer precedence
+ * A version without pre-release identifiers ranks above one with them
+ */
+function comparePrerelease(a: PrereleaseIdentifier[], b: PrereleaseIdentifier[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+
+  const maxLength = Math.max(a.length, b.length);
+  for (let i = 0; i < maxLength; i++) {
+    const idA = a[i];
+    const idB = b[i];
+
+    // A larger set of identifiers has higher precedence when all preceding are equal
+    if (idA === undefined) return -1;
+    if (idB === undefined) return 1;
+    if (idA === idB) continue;
+
+    // Numeric identifiers always have lower precedence than alphanumeric ones
+    if (typeof idA === 'number' && typeof idB === 'number') {
+      return idA < idB ? -1 : 1;
+    }
+    if (typeof idA === 'number') return -1;
+    if (typeof idB === 'number') return 1;
+
+    return idA < idB ? -1 : 1;
+  }
+
+  return 0;
+}
+
 /**
  * Compare two semantic version strings
+ * Build metadata is ignored, pre-release versions rank below their release
  * Returns: -1 if v1 < v2, 0 if v1 == v2, 1 if v1 > v2
+ * @throws VersionParseError in strict mode if either version is malformed
  */
-export function compareVersions(v1: string, v2: string): number {
-  const parts1 = v1.split('.').map(num => parseInt(num, 10));
-  const parts2 = v2.split('.').map(num => parseInt(num, 10));
+export function compareVersions(
+  v1: string,
+  v2: string,
+  options: VersionParseOptions = {}
+): number {
+  const split1 = splitVersion(v1);
+  const split2 = splitVersion(v2);
+
+  if (options.strict) {
+    assertStrictVersion(v1, split1);
+    assertStrictVersion(v2, split2);
+  }
+
+  const parts1 = split1.core.split('.').map(num => parseInt(num, 10) || 0);
+  const parts2 = split2.core.split('.').map(num => parseInt(num, 10) || 0);
 
   // Pad arrays to same length
   const maxLength = Math.max(parts1.length, parts2.length);
@@ -21,7 +163,10 @@ export function compareVersions(v1: string, v2: string): number {
     if (parts1[i] > parts2[i]) return 1;
   }
 
-  return 0;
+  return comparePrerelease(
+    parsePrerelease(split1.prerelease),
+    parsePrerelease(split2.prerelease)
+  );
 }
 
 /**
@@ -33,19 +178,27 @@ export function isUpdateAvailable(currentVersion: string, latestVersion: string)
 
 /**
  * Parse a version string into its components
+ * e.g. "2.0.0-beta.3+build.7" → prerelease ['beta', 3], build ['build', '7']
+ * Lenient by default: malformed segments become 0
+ * @throws VersionParseError in strict mode if the version is malformed
  */
-export function parseVersion(version: string): {
-  major: number;
-  minor: number;
-  patch: number;
-  build?: number;
-} {
-  const parts = version.split('.').map(num => parseInt(num, 10));
+export function parseVersion(version: string, options: VersionParseOptions = {}): ParsedVersion {
+  const split = splitVersion(version);
+  if (options.strict) {
+    assertStrictVersion(version, split);
+  }
+
+  const { core, prerelease, build } = split;
+  const parts = core.split('.').map(num => parseInt(num, 10));
+
   return {
     major: parts[0] || 0,
     minor: parts[1] || 0,
     patch: parts[2] || 0,
-    build: parts[3] // Optional build number
+    // Optional fourth segment (mobile build number)
+    revision: parts.length > 3 ? parts[3] || 0 : undefined,
+    prerelease: parsePrerelease(prerelease),
+    build: build ? build.split('.') : [],
   };
 }
 
@@ -56,13 +209,23 @@ export function formatVersion(
   major: number,
   minor: number,
   patch: number,
-  build?: number
+  revision?: number,
+  prerelease: PrereleaseIdentifier[] = [],
+  build: string[] = []
 ): string {
   const parts = [major, minor, patch];
-  if (build !== undefined) {
-    parts.push(build);
+  if (revision !== undefined) {
+    parts.push(revision);
   }
-  return parts.join('.');
+
+  let version = parts.join('.');
+  if (prerelease.length > 0) {
+    version += `-${prerelease.join('.')}`;
+  }
+  if (build.length > 0) {
+    version += `+${build.join('.')}`;
+  }
+  return version;
 }
 
 /**
@@ -86,20 +249,34 @@ export function getPatchVersion(version: string): number {
   return parseVersion(version).patch;
 }
 
+/**
+ * Check if a version string is a pre-release (e.g. "2.0.0-rc.1")
+ */
+export function isPrerelease(version: string): boolean {
+  return parseVersion(version).prerelease.length > 0;
+}
+
 /**
  * Check if version is a valid semantic version string
+ * Accepts an optional fourth numeric segment, pre-release and build metadata
  */
 export function isValidVersion(version: string): boolean {
-  const regex = /^\d+\.\d+\.\d+(\.\d+)?$/;
+  const identifier = '(?:0|[1-9]\\d*|\\d*[a-zA-Z-][0-9a-zA-Z-]*)';
+  const regex = new RegExp(
+    `^\\d+\\.\\d+\\.\\d+(\\.\\d+)?` +
+      `(-${identifier}(\\.${identifier})*)?` +
+      `(\\+[0-9a-zA-Z-]+(\\.[0-9a-zA-Z-]+)*)?$`
+  );
   return regex.test(version);
 }
 
 /**
  * Get the difference between two versions
  * Returns an object describing what changed
+ * 'build' refers to the fourth numeric segment; build metadata is ignored
  */
 export function getVersionDiff(v1: string, v2: string): {
-  type: 'major' | 'minor' | 'patch' | 'build' | 'none';
+  type: VersionDiffType;
   fromVersion: string;
   toVersion: string;
 } {
@@ -112,7 +289,7 @@ export function getVersionDiff(v1: string, v2: string): {
   const parsed1 = parseVersion(v1);
   const parsed2 = parseVersion(v2);
 
-  let type: 'major' | 'minor' | 'patch' | 'build' = 'build';
+  let type: Exclude<VersionDiffType, 'none'> = 'prerelease';
 
   if (parsed1.major !== parsed2.major) {
     type = 'major';
@@ -120,6 +297,8 @@ export function getVersionDiff(v1: string, v2: string): {
     type = 'minor';
   } else if (parsed1.patch !== parsed2.patch) {
     type = 'patch';
+  } else if ((parsed1.revision ?? 0) !== (parsed2.revision ?? 0)) {
+    type = 'build';
   }
 
   return {
@@ -127,4 +306,278 @@ export function getVersionDiff(v1: string, v2: string): {
     fromVersion: comparison < 0 ? v1 : v2,
     toVersion: comparison < 0 ? v2 : v1
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Loose version pattern used inside range expressions
+ * Segments may be wildcards (x, X, *) or omitted entirely
+ */
+const PARTIAL_VERSION_REGEX =
+  /^[vV=]?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?((?:\.\d+)?(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)$/;
+
+interface PartialVersion {
+  major: number | null;
+  minor: number | null;
+  patch: number | null;
+  /** Revision, pre-release and build suffix, only kept for complete versions */
+  tail: string;
+}
+
+function parsePartialVersion(input: string): PartialVersion {
+  const match = input.match(PARTIAL_VERSION_REGEX);
+  if (!match) {
+    throw new Error(`Invalid version in range: "${input}"`);
+  }
+
+  const toNumber = (part?: string): number | null =>
+    part === undefined || /^[xX*]$/.test(part) ? null : parseInt(part, 10);
+
+  const major = toNumber(match[1]);
+  // Anything after a wildcard is a wildcard as well
+  const minor = major === null ? null : toNumber(match[2]);
+  const patch = minor === null ? null : toNumber(match[3]);
+
+  return { major, minor, patch, tail: patch === null ? '' : match[4] };
+}
+
+function comparator(operator: RangeOperator, version: string): RangeComparator {
+  return { operator, version };
+}
+
+/**
+ * Desugar a primitive or bare partial ("1.2", ">=1.2", "<1.x") into comparators
+ */
+function desugarPrimitive(operator: RangeOperator | '', p: PartialVersion): RangeComparator[] {
+  if (p.major === null) {
+    // "<*" and ">*" can never match
+    return operator === '<' || operator === '>' ? [comparator('<', '0.0.0-0')] : [];
+  }
+
+  const { major, minor, patch, tail } = p;
+
+  switch (operator) {
+    case '':
+    case '=':
+      if (minor === null) {
+        return [comparator('>=', `${major}.0.0`), comparator('<', `${major + 1}.0.0-0`)];
+      }
+      if (patch === null) {
+        return [comparator('>=', `${major}.${minor}.0`), comparator('<', `${major}.${minor + 1}.0-0`)];
+      }
+      return [comparator('=', `${major}.${minor}.${patch}${tail}`)];
+    case '>=':
+      return [comparator('>=', `${major}.${minor ?? 0}.${patch ?? 0}${tail}`)];
+    case '>':
+      if (minor === null) return [comparator('>=', `${major + 1}.0.0`)];
+      if (patch === null) return [comparator('>=', `${major}.${minor + 1}.0`)];
+      return [comparator('>', `${major}.${minor}.${patch}${tail}`)];
+    case '<':
+      if (patch === null) return [comparator('<', `${major}.${minor ?? 0}.0-0`)];
+      return [comparator('<', `${major}.${minor}.${patch}${tail}`)];
+    case '<=':
+      if (minor === null) return [comparator('<', `${major + 1}.0.0-0`)];
+      if (patch === null) return [comparator('<', `${major}.${minor + 1}.0-0`)];
+      return [comparator('<=', `${major}.${minor}.${patch}${tail}`)];
+  }
+}
+
+/**
+ * Desugar a tilde range: allows patch-level changes
+ * ~1.2.3 → >=1.2.3 <1.3.0-0, ~1 → >=1.0.0 <2.0.0-0
+ */
+function desugarTilde(p: PartialVersion): RangeComparator[] {
+  if (p.major === null) return [];
+  if (p.minor === null) return desugarPrimitive('', p);
+
+  return [
+    comparator('>=', `${p.major}.${p.minor}.${p.patch ?? 0}${p.tail}`),
+    comparator('<', `${p.major}.${p.minor + 1}.0-0`),
+  ];
+}
+
+/**
+ * Desugar a caret range: allows changes that keep the left-most non-zero segment
+ * ^1.2.3 → >=1.2.3 <2.0.0-0, ^0.2.3 → >=0.2.3 <0.3.0-0, ^0.0.3 → >=0.0.3 <0.0.4-0
+ */
+function desugarCaret(p: PartialVersion): RangeComparator[] {
+  if (p.major === null) return [];
+  if (p.minor === null) return desugarPrimitive('', p);
+
+  const { major, minor, tail } = p;
+  const lower = comparator('>=', `${major}.${minor}.${p.patch ?? 0}${tail}`);
+
+  if (major > 0) {
+    return [lower, comparator('<', `${major + 1}.0.0-0`)];
+  }
+  if (minor > 0 || p.patch === null) {
+    return [lower, comparator('<', `0.${minor + 1}.0-0`)];
+  }
+  return [lower, comparator('<', `0.0.${p.patch + 1}-0`)];
+}
+
+/**
+ * Desugar a hyphen range: "1.2.3 - 2.3" → >=1.2.3 <2.4.0-0
+ */
+function desugarHyphen(from: PartialVersion, to: PartialVersion): RangeComparator[] {
+  const lower = from.major === null ? [] : desugarPrimitive('>=', from);
+  const upper = to.major === null ? [] : desugarPrimitive('<=', to);
+  return [...lower, ...upper];
+}
+
+function parseComparatorSet(input: string): RangeComparator[] {
+  const trimmed = input.trim();
+  if (trimmed === '') {
+    return [];
+  }
+
+  const hyphen = trimmed.split(/\s+-\s+/);
+  if (hyphen.length === 2) {
+    return desugarHyphen(parsePartialVersion(hyphen[0]), parsePartialVersion(hyphen[1]));
+  }
+  if (hyphen.length > 2) {
+    throw new Error(`Invalid hyphen range: "${trimmed}"`);
+  }
+
+  // Glue operators to their versions (">= 1.2.3" → ">=1.2.3")
+  const tokens = trimmed.replace(/(<=|>=|<|>|=|~>?|\^)\s+/g, '$1').split(/\s+/);
+
+  return tokens.flatMap(token => {
+    const match = token.match(/^(<=|>=|<|>|=|~>?|\^)?(.*)$/)!;
+    const operator = match[1] ?? '';
+    const partial = parsePartialVersion(match[2]);
+
+    if (operator === '^') return desugarCaret(partial);
+    if (operator === '~' || operator === '~>') return desugarTilde(partial);
+    return desugarPrimitive(operator as RangeOperator | '', partial);
+  });
+}
+
+/**
+ * Parse a range expression into comparator sets
+ * Supports ^, ~, comparison operators, x-ranges, hyphen ranges and "||"
+ * e.g. ">=1.2.0 <1.5.0 || 2.0.x"
+ * @throws Error if the expression is malformed
+ */
+export function parseRange(range: string): VersionRange {
+  const alternatives = range.split('||');
+
+  // A blank range matches everything, but a blank alternative ("1.2.3 || ") is a typo
+  if (alternatives.length > 1 && alternatives.some(alternative => alternative.trim() === '')) {
+    throw new Error(`Empty alternative in range: "${range}"`);
+  }
+
+  return alternatives.map(parseComparatorSet);
+}
+
+/**
+ * Check if a string is a valid range expression
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function testComparator(version: string, { operator, version: target }: RangeComparator): boolean {
+  const comparison = compareVersions(version, target);
+
+  switch (operator) {
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    case '=':
+      return comparison === 0;
+  }
+}
+
+function hasSameCore(a: ParsedVersion, b: ParsedVersion): boolean {
+  return (
+    a.major === b.major &&
+    a.minor === b.minor &&
+    a.patch === b.patch &&
+    (a.revision ?? 0) === (b.revision ?? 0)
+  );
+}
+
+function testComparatorSet(
+  version: string,
+  set: RangeComparator[],
+  includePrerelease: boolean
+): boolean {
+  if (!set.every(c => testComparator(version, c))) {
+    return false;
+  }
+
+  const parsed = parseVersion(version);
+  if (parsed.prerelease.length === 0 || includePrerelease) {
+    return true;
+  }
+
+  // Pre-releases only match when a comparator opts into the same release line,
+  // so ">=1.2.0 <1.5.0" does not pick up "1.5.0-beta.1"
+  return set.some(c => {
+    const target = parseVersion(c.version);
+    return target.prerelease.length > 0 && hasSameCore(parsed, target);
+  });
+}
+
+/**
+ * Check if a version satisfies a range expression
+ * Returns false for malformed ranges
+ * @param options.includePrerelease Let pre-release versions match any range
+ */
+export function satisfies(
+  version: string,
+  range: string | VersionRange,
+  options: { includePrerelease?: boolean } = {}
+): boolean {
+  let parsed: VersionRange;
+  try {
+    parsed = typeof range === 'string' ? parseRange(range) : range;
+  } catch {
+    return false;
+  }
+
+  const includePrerelease = options.includePrerelease ?? false;
+  return parsed.some(set => testComparatorSet(version, set, includePrerelease));
+}
+
+/**
+ * Get the highest version in the list that satisfies the range
+ */
+export function maxSatisfying(
+  versions: string[],
+  range: string | VersionRange,
+  options: { includePrerelease?: boolean } = {}
+): string | null {
+  return versions
+    .filter(version => satisfies(version, range, options))
+    .reduce<string | null>(
+      (max, version) => (max === null || compareVersions(version, max) > 0 ? version : max),
+      null
+    );
+}
+
+/**
+ * Get the lowest version in the list that satisfies the range
+ */
+export function minSatisfying(
+  versions: string[],
+  range: string | VersionRange,
+  options: { includePrerelease?: boolean } = {}
+): string | null {
+  return versions
+    .filter(version => satisfies(version, range, options))
+    .reduce<string | null>(
+      (min, version) => (min === null || compareVersions(version, min) < 0 ? version : min),
+      null
+    );
+}
@@ -3,6 +3,8 @@
  * Pure functions for formatting version strings
  */
 
+import { compareVersions, parseVersion, VersionParseOptions } from './version-compare';
+
 /**
  * Format a version with optional build number
  * @param platformVersion The platform-specific version (e.g., "1.0.36")
@@ -46,10 +48,24 @@ export function extractBaseVersion(version: string): string {
  * Normalize version string to ensure consistent format
  * @param version Version string to normalize
  * @param padToLength Minimum number of segments (default: 3)
+ * @param options.strict Throw a VersionParseError instead of dropping bad segments
  * @returns Normalized version string
  */
-export function normalizeVersion(version: string, padToLength: number = 3): string {
-  const parts = version.split('.');
+export function normalizeVersion(
+  version: string,
+  padToLength: number = 3,
+  options: VersionParseOptions = {}
+): string {
+  if (options.strict) {
+    parseVersion(version, options);
+  }
+
+  // Keep pre-release and build metadata suffixes intact
+  const suffixIndex = version.search(/[-+]/);
+  const core = suffixIndex === -1 ? version : version.slice(0, suffixIndex);
+  const suffix = suffixIndex === -1 ? '' : version.slice(suffixIndex);
+
+  const parts = core.split('.');
 
   // Ensure all parts are valid numbers
   const numericParts = parts
@@ -61,7 +77,7 @@ export function normalizeVersion(version: string, padToLength: number = 3): stri
     numericParts.push(0);
   }
 
-  return numericParts.join('.');
+  return numericParts.join('.') + suffix;
 }
 
 /**
@@ -85,23 +101,9 @@ export function formatDisplayVersion(
  * @returns Sorted array of versions
  */
 export function sortVersions(versions: string[], descending: boolean = true): string[] {
-  const sorted = [...versions].sort((a, b) => {
-    const aParts = a.split('.').map(num => parseInt(num, 10));
-    const bParts = b.split('.').map(num => parseInt(num, 10));
-
-    const maxLength = Math.max(aParts.length, bParts.length);
-
-    for (let i = 0; i < maxLength; i++) {
-      const aPart = aParts[i] || 0;
-      const bPart = bParts[i] || 0;
-
-      if (aPart !== bPart) {
-        return descending ? bPart - aPart : aPart - bPart;
-      }
-    }
-
-    return 0;
-  });
+  const sorted = [...versions].sort((a, b) =>
+    descending ? compareVersions(b, a) : compareVersions(a, b)
+  );
 
   return sorted;
 }
@@ -0,0 +1,156 @@
+/**
+ * Version schemes
+ * Pluggable parse/compare/validate/format strategies for different version formats
+ */
+
+import { ParsedVersion, Platform, VersionScheme } from './types';
+import { VersionParseError } from './errors';
+import { compareVersions, parseVersion } from './version-compare';
+import { normalizeVersion } from './version-formatter';
+
+/**
+ * Default "semver-ish" scheme
+ * Dotted numeric versions with optional fourth build segment, pre-release and build metadata
+ */
+export const semverScheme: VersionScheme<ParsedVersion> = {
+  name: 'semver',
+  parse: version => parseVersion(version),
+  parseStrict: version => parseVersion(version, { strict: true }),
+  compare: (a, b) => compareVersions(a, b),
+  // Agree with parseStrict, which also accepts one- and two-segment versions like "1.0"
+  isValid: version => validateWithScheme(semverScheme, version) === null,
+  format: version => normalizeVersion(version, 3),
+};
+
+/**
+ * Parsed calendar version (e.g. "2026.10.2" or "26.10")
+ */
+export interface ParsedCalVer {
+  year: number;
+  month: number;
+  micro: number;
+  modifier: string | null;
+}
+
+const CALVER_REGEX = /^(\d{2}|\d{4})\.(0?[1-9]|1[0-2])(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?$/;
+
+function parseCalVer(version: string): ParsedCalVer {
+  const match = version.trim().match(CALVER_REGEX);
+  if (!match) {
+    return { year: 0, month: 0, micro: 0, modifier: null };
+  }
+
+  const year = parseInt(match[1], 10);
+  return {
+    year: match[1].length === 2 ? 2000 + year : year,
+    month: parseInt(match[2], 10),
+    micro: match[3] ? parseInt(match[3], 10) : 0,
+    modifier: match[4] ?? null,
+  };
+}
+
+/**
+ * Convert a calendar version to an equivalent semver string
+ * so modifiers get pre-release precedence (rank below the plain release)
+ */
+function calVerToSemver({ year, month, micro, modifier }: ParsedCalVer): string {
+  return `${year}.${month}.${micro}${modifier ? `-${modifier}` : ''}`;
+}
+
+/**
+ * Calendar versioning scheme: YYYY.MM[.MICRO][-modifier]
+ * Two-digit years are read as 20YY
+ */
+export const calverScheme: VersionScheme<ParsedCalVer> = {
+  name: 'calver',
+  parse: parseCalVer,
+  parseStrict: version => {
+    if (!CALVER_REGEX.test(version.trim())) {
+      throw new VersionParseError(version, null, 'expected YYYY.MM[.MICRO][-modifier]');
+    }
+    return parseCalVer(version);
+  },
+  compare: (a, b) => compareVersions(calVerToSemver(parseCalVer(a)), calVerToSemver(parseCalVer(b))),
+  isValid: version => CALVER_REGEX.test(version.trim()),
+  format: version => {
+    const { year, month, micro, modifier } = parseCalVer(version);
+    const base = `${year}.${String(month).padStart(2, '0')}.${micro}`;
+    return modifier ? `${base}-${modifier}` : base;
+  },
+};
+
+function parseBuildNumber(version: string): number {
+  return parseInt(version.trim(), 10) || 0;
+}
+
+/**
+ * Integer build code scheme (e.g. Android versionCode, iOS CFBundleVersion)
+ */
+export const buildNumberScheme: VersionScheme<number> = {
+  name: 'build-number',
+  parse: parseBuildNumber,
+  parseStrict: version => {
+    if (!/^\d+$/.test(version.trim())) {
+      throw new VersionParseError(version, version, 'expected an integer build number');
+    }
+    return parseBuildNumber(version);
+  },
+  compare: (a, b) => Math.sign(parseBuildNumber(a) - parseBuildNumber(b)),
+  isValid: version => /^\d+$/.test(version.trim()),
+  format: version => String(parseBuildNumber(version)),
+};
+
+/**
+ * Validate a version against a scheme, returning the parse error if it is invalid
+ * Uses the scheme's strict parser when available for a detailed error
+ */
+export function validateWithScheme(
+  scheme: VersionScheme,
+  version: string
+): VersionParseError | null {
+  if (scheme.parseStrict) {
+    try {
+      scheme.parseStrict(version);
+      return null;
+    } catch (error) {
+      if (error instanceof VersionParseError) {
+        return error;
+      }
+      throw error;
+    }
+  }
+
+  return scheme.isValid(version)
+    ? null
+    : new VersionParseError(version, null, `not a valid ${scheme.name} version`);
+}
+
+/**
+ * Check if a value is a version scheme rather than a per-platform scheme map
+ */
+export function isVersionScheme(value: unknown): value is VersionScheme {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<VersionScheme>).compare === 'function'
+  );
+}
+
+/**
+ * Resolve the scheme to use for a platform from a global or per-platform setting
+ * Falls back to the semver scheme when no scheme is configured for the platform
+ */
+export function resolveVersionScheme(
+  scheme: VersionScheme | Partial<Record<Platform, VersionScheme>> | undefined,
+  platform: Platform
+): VersionScheme {
+  if (!scheme) {
+    return semverScheme;
+  }
+
+  if (isVersionScheme(scheme)) {
+    return scheme;
+  }
+
+  return scheme[platform] ?? semverScheme;
+}
@@ -4,9 +4,19 @@
 
 // Core exports
 export * from './core/types';
+export * from './core/errors';
 export * from './core/version-compare';
 export * from './core/version-formatter';
+export * from './core/version-scheme';
+export * from './core/release-notes';
 export * from './core/stores';
+export * from './core/platform';
+export * from './core/rollout';
+export * from './core/events';
+export * from './core/clock';
+export * from './core/decision-trace';
+export * from './core/prompt-policy';
+export * from './core/schedule';
 export { VersionChecker } from './core/version-checker';
 
 // Provider interfaces
@@ -17,6 +27,9 @@ export * from './providers/storage-provider.interface';
 export { LocalStorageProvider } from './adapters/stores/local-storage-provider';
 export { AsyncStorageProvider, type IAsyncStorage } from './adapters/stores/async-storage-provider';
 
+// Data provider adapters
+export * from './adapters/data';
+
 // React adapters (optional - only if React is available)
 export * from './adapters/react/VersionCheckContext';
 export * from './adapters/react/hooks';
\ No newline at end of file
@@ -3,7 +3,15 @@
  * Implement this interface to provide version data from any source
  */
 
-import { Platform, AppStoreConfig } from '../core/types';
+import {
+  Platform,
+  AppStoreConfig,
+  ReleaseChannel,
+  ReleaseNotes,
+  RemoteOptions,
+  VersionRelease,
+} from '../core/types';
+import { detectPlatform } from '../core/platform';
 
 /**
  * Interface for providing version data from any source
@@ -19,8 +27,9 @@ export interface IVersionDataProvider {
   /**
    * Get the latest available version for a specific platform
    * This is typically fetched from a backend service or configuration
+   * Called once per release channel the user follows ('stable' unless they opted into more)
    */
-  getLatestVersion(platform: Platform): Promise<string | null>;
+  getLatestVersion(platform: Platform, channel?: ReleaseChannel): Promise<string | null>;
 
   /**
    * Get app store configuration
@@ -43,13 +52,31 @@ export interface IVersionDataProvider {
   /**
    * Optional: Check if updates should be forced
    * Some critical updates might require mandatory installation
+   * @param platform Platform the latest version was resolved for
    */
-  isUpdateMandatory?(currentVersion: string, latestVersion: string): Promise<boolean> | boolean;
+  isUpdateMandatory?(
+    currentVersion: string,
+    latestVersion: string,
+    platform?: Platform
+  ): Promise<boolean> | boolean;
 
   /**
    * Optional: Get changelog or release notes for the latest version
+   * @param platform Platform the version was resolved for
    */
-  getChangeLog?(version: string): Promise<string | null>;
+  getChangeLog?(version: string, platform?: Platform): Promise<string | null>;
+
+  /**
+   * Optional: Get structured, localized release notes for a version
+   * When only getChangeLog is implemented, its text is converted automatically
+   */
+  getReleaseNotes?(version: string, platform: Platform): Promise<ReleaseNotes | null>;
+
+  /**
+   * Optional: Get the release history for a platform
+   * Used to show every change between the installed and the latest version
+   */
+  getVersionHistory?(platform: Platform): Promise<VersionRelease[]>;
 
   /**
    * Optional: Get minimum supported version
@@ -63,6 +90,18 @@ export interface IVersionDataProvider {
    */
   isVersionAvailableForUser?(version: string, platform: Platform): Promise<boolean>;
 
+  /**
+   * Optional: Get the staged rollout percentage (0-100) for a version
+   * Users are bucketed deterministically; return null for a full rollout
+   */
+  getRolloutPercentage?(version: string, platform: Platform): Promise<number | null>;
+
+  /**
+   * Optional: Get checker settings controlled from the backend
+   * Overrides the local options at runtime, e.g. to turn prompting off during a bad release
+   */
+  getRemoteOptions?(platform: Platform): Promise<RemoteOptions | null>;
+
   /**
    * Optional: Initialize the provider
    * Called once when the version checker is initialized
@@ -82,16 +121,12 @@ export interface IVersionDataProvider {
  */
 export abstract class BaseVersionDataProvider implements IVersionDataProvider {
   abstract getCurrentVersion(): Promise<string> | string;
-  abstract getLatestVersion(platform: Platform): Promise<string | null>;
+  abstract getLatestVersion(platform: Platform, channel?: ReleaseChannel): Promise<string | null>;
   abstract getAppStoreConfig(): Promise<AppStoreConfig> | AppStoreConfig;
 
   getCurrentPlatform?(): Platform {
-    // Default implementation can be overridden
-    if (typeof window !== 'undefined' && !('ReactNativeWebView' in window)) {
-      return 'web';
-    }
-    // Platform detection would be handled by the specific implementation
-    return 'web';
+    // Default implementation can be overridden, e.g. with detectPlatform({ reactNativeOS: Platform.OS })
+    return detectPlatform();
   }
 
   async initialize(): Promise<void> {
@@ -3,6 +3,8 @@
  * Implement this interface to store timestamps and preferences in any storage system
  */
 
+import { ReleaseChannel } from '../core/types';
+
 /**
  * Interface for storing version check timestamps and preferences
  * Can be implemented using localStorage, AsyncStorage, database, etc.
@@ -44,6 +46,11 @@ export interface IStorageProvider {
    */
   incrementDismissCount?(): Promise<void>;
 
+  /**
+   * Optional: Reset the dismiss count (called when a new version is prompted)
+   */
+  resetDismissCount?(): Promise<void>;
+
   /**
    * Optional: Get the last shown version
    * Useful to avoid showing the same update multiple times
@@ -55,6 +62,63 @@ export interface IStorageProvider {
    */
   setLastShownVersion?(version: string): Promise<void>;
 
+  /**
+   * Optional: Get the last app version the user has seen "What's New" for
+   * Used to detect that the app was updated
+   */
+  getLastSeenVersion?(): Promise<string | null>;
+
+  /**
+   * Optional: Set the last app version the user has seen "What's New" for
+   */
+  setLastSeenVersion?(version: string): Promise<void>;
+
+  /**
+   * Optional: Get the version the user chose to skip
+   */
+  getSkippedVersion?(): Promise<string | null>;
+
+  /**
+   * Optional: Set the version the user chose to skip
+   */
+  setSkippedVersion?(version: string): Promise<void>;
+
+  /**
+   * Optional: Clear the skipped version
+   */
+  clearSkippedVersion?(): Promise<void>;
+
+  /**
+   * Optional: Get the persisted device id used for staged rollout bucketing
+   */
+  getDeviceId?(): Promise<string | null>;
+
+  /**
+   * Optional: Persist the device id used for staged rollout bucketing
+   */
+  setDeviceId?(deviceId: string): Promise<void>;
+
+  /**
+   * Optional: Get timestamps of recent update prompts, oldest first
+   * Used to enforce prompt frequency caps across sessions
+   */
+  getPromptImpressions?(): Promise<number[]>;
+
+  /**
+   * Optional: Replace the recorded prompt timestamps
+   */
+  setPromptImpressions?(timestamps: number[]): Promise<void>;
+
+  /**
+   * Optional: Get the release channels the user opted into
+   */
+  getReleaseChannels?(): Promise<ReleaseChannel[] | null>;
+
+  /**
+   * Optional: Persist the release channels the user opted into
+   */
+  setReleaseChannels?(channels: ReleaseChannel[]): Promise<void>;
+
   /**
    * Optional: Get user preference for auto-updates
    */
@@ -105,6 +169,10 @@ export abstract class BaseStorageProvider implements IStorageProvider {
     // Default no-op
   }
 
+  async resetDismissCount(): Promise<void> {
+    // Default no-op
+  }
+
   async initialize(): Promise<void> {
     // Default no-op
   }
@@ -149,6 +217,10 @@ export class InMemoryStorageProvider extends BaseStorageProvider {
     this.storage.set('dismissCount', current + 1);
   }
 
+  async resetDismissCount(): Promise<void> {
+    this.storage.delete('dismissCount');
+  }
+
   async getLastShownVersion(): Promise<string | null> {
     return this.storage.get('lastShownVersion') || null;
   }
@@ -157,6 +229,50 @@ export class InMemoryStorageProvider extends BaseStorageProvider {
     this.storage.set('lastShownVersion', version);
   }
 
+  async getLastSeenVersion(): Promise<string | null> {
+    return this.storage.get('lastSeenVersion') || null;
+  }
+
+  async setLastSeenVersion(version: string): Promise<void> {
+    this.storage.set('lastSeenVersion', version);
+  }
+
+  async getSkippedVersion(): Promise<string | null> {
+    return this.storage.get('skippedVersion') || null;
+  }
+
+  async setSkippedVersion(version: string): Promise<void> {
+    this.storage.set('skippedVersion', version);
+  }
+
+  async clearSkippedVersion(): Promise<void> {
+    this.storage.delete('skippedVersion');
+  }
+
+  async getDeviceId(): Promise<string | null> {
+    return this.storage.get('deviceId') || null;
+  }
+
+  async setDeviceId(deviceId: string): Promise<void> {
+    this.storage.set('deviceId', deviceId);
+  }
+
+  async getPromptImpressions(): Promise<number[]> {
+    return this.storage.get('promptImpressions') || [];
+  }
+
+  async setPromptImpressions(timestamps: number[]): Promise<void> {
+    this.storage.set('promptImpressions', [...timestamps]);
+  }
+
+  async getReleaseChannels(): Promise<ReleaseChannel[] | null> {
+    return this.storage.get('releaseChannels') || null;
+  }
+
+  async setReleaseChannels(channels: ReleaseChannel[]): Promise<void> {
+    this.storage.set('releaseChannels', [...channels]);
+  }
+
   async clearAll(): Promise<void> {
     this.storage.clear();
   }
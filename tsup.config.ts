@@ -6,6 +6,7 @@ export default defineConfig({
     'core/index': 'src/core/index.ts',
     'adapters/react/index': 'src/adapters/react/index.ts',
     'adapters/stores/index': 'src/adapters/stores/index.ts',
+    'adapters/data/index': 'src/adapters/data/index.ts',
     'providers/index': 'src/providers/index.ts',
   },
   format: ['cjs', 'esm'],